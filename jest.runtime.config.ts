@@ -0,0 +1,23 @@
+import type { InitialOptionsTsJest } from 'ts-jest/dist/types';
+import baseConfig from './jest.import.config';
+
+/**
+ * Runs the runtime tests, whose decorators are compiled by TypeScript with
+ * `emitDecoratorMetadata` instead of the transformer, so that `@Injectable()` runs at runtime.
+ */
+const config: InitialOptionsTsJest = {
+  ...baseConfig,
+  coverageDirectory: 'coverage-runtime',
+  testMatch: ['**/test/runtime/**/*.spec.ts'],
+  // `@Injectable()` reads `design:paramtypes` through `Reflect.getOwnMetadata`.
+  setupFiles: ['./test/util/reflect-metadata.ts'],
+  globals: {
+    'ts-jest': {
+      tsconfig: 'tsconfig.runtime-spec.json',
+      astTransformers: {
+        before: ['ts-jest/dist/transformers/path-mapping'],
+      },
+    },
+  },
+};
+export default config;
@@ -0,0 +1,16 @@
+import type { InitialOptionsTsJest } from 'ts-jest/dist/types';
+import baseConfig from './jest.transform.config';
+
+/**
+ * Runs the transform tests against TypeScript 5, which is installed under the `typescript5`
+ * alias next to the TypeScript 4 version used by the rest of the build.
+ */
+const config: InitialOptionsTsJest = {
+  ...baseConfig,
+  coverageDirectory: 'coverage-ts5',
+  moduleNameMapper: {
+    ...baseConfig.moduleNameMapper,
+    '^typescript$': 'typescript5',
+  },
+};
+export default config;
@@ -82,7 +82,10 @@ const config: InitialOptionsTsJest = {
   ],
 
   // A map from regular expressions to module names or to arrays of module names that allow to stub out resources with a single module
-  // moduleNameMapper: {},
+  // The fixtures compiled by the tests import `static-injector`.
+  moduleNameMapper: {
+    '^static-injector$': '<rootDir>/src/import',
+  },
 
   // An array of regexp pattern strings, matched against all module paths before considered 'visible' to the module loader
   // modulePathIgnorePatterns: [],
@@ -175,8 +178,9 @@ const config: InitialOptionsTsJest = {
 
   // A map from regular expressions to paths to transformers
   // transform: undefined,
+  // The JavaScript emitted by the tests is run as is.
   transform: {
-    '^.+\\.(t|j)s$': 'ts-jest',
+    '^.+\\.ts$': 'ts-jest',
   },
   // An array of regexp pattern strings that are matched against all source file paths, matched files will skip transformation
   // transformIgnorePatterns: [
@@ -6,8 +6,11 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
+import { ProviderLifetime } from '../di/interface/provider';
+import { InjectorScope } from '../di/scope';
 import { Type } from '../interface/type';
-import { TypeDecorator } from '../util/decorators';
+import { compileInjectable } from '../render3/jit/injectable';
+import { makeDecorator, TypeDecorator } from '../util/decorators';
 
 import {
   ClassSansProvider,
@@ -59,13 +62,15 @@ export interface InjectableDecorator {
   (): TypeDecorator;
   (
     options?: {
-      providedIn: Type<any> | 'root' | 'platform' | 'any' | null;
+      providedIn: Type<any> | 'any' | InjectorScope | null;
+      lifetime?: ProviderLifetime;
     } & InjectableProvider
   ): TypeDecorator;
   new (): Injectable;
   new (
     options?: {
-      providedIn: Type<any> | 'root' | 'platform' | 'any' | null;
+      providedIn: Type<any> | 'any' | InjectorScope | null;
+      lifetime?: ProviderLifetime;
     } & InjectableProvider
   ): Injectable;
 }
@@ -91,15 +96,34 @@ export interface Injectable {
    * applications on the page.
    * - 'any' : Provides a unique instance in each lazy loaded module while all eagerly loaded
    * modules share one instance.
+   * - any other name (e.g. 'request') : The injectors created with that scope, see
+   * `Injector.create`.
    *
    */
-  providedIn?: Type<any> | 'root' | 'platform' | 'any' | null;
+  providedIn?: Type<any> | 'any' | InjectorScope | null;
+
+  /**
+   * How long the instances created for the injectable are kept:
+   * - 'singleton' : one instance per injector (default).
+   * - 'transient' : a new instance on every injection.
+   */
+  lifetime?: ProviderLifetime;
 }
 
 /**
  * Injectable decorator and metadata.
  *
+ * When the transformer is not used, the decorator compiles the class at runtime: the constructor
+ * parameters are read from the `deps` option, or from the `@Inject`/`@Optional`/`@Self`/
+ * `@SkipSelf` parameter decorators together with the `design:paramtypes` metadata that is
+ * emitted with `emitDecoratorMetadata` (this needs a `Reflect.getOwnMetadata` polyfill such as
+ * `reflect-metadata`).
+ *
  * @Annotation
  * @publicApi
  */
-export const Injectable: InjectableDecorator = undefined;
+export const Injectable: InjectableDecorator = makeDecorator(
+  'Injectable',
+  undefined,
+  (type: Type<any>, meta: Injectable) => compileInjectable(type, meta)
+);
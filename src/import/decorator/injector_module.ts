@@ -0,0 +1,67 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { InjectorType, InjectorTypeWithProviders } from '../di/interface/defs';
+import { Provider } from '../di/interface/provider';
+import { Type } from '../interface/type';
+import { TypeDecorator } from '../util/decorators';
+
+/**
+ * Type of the InjectorModule decorator / constructor function.
+ *
+ * @publicApi
+ */
+export interface InjectorModuleDecorator {
+  /**
+   * Decorator that marks a class as an injector type, which groups providers and other injector
+   * types together. The compiler turns it into a static `ɵinj` definition, so the class can be
+   * passed to `createInjector`.
+   *
+   * @usageNotes
+   *
+   * ```
+   * @InjectorModule({providers: [Logger], imports: [HttpModule]})
+   * class AppModule {}
+   *
+   * const injector = createInjector(AppModule);
+   * ```
+   */
+  (obj?: InjectorModule): TypeDecorator;
+  new (obj?: InjectorModule): InjectorModule;
+}
+
+/**
+ * Type of the InjectorModule metadata.
+ *
+ * @publicApi
+ */
+export interface InjectorModule {
+  /**
+   * The set of injectable objects that are available in the injector created from this module.
+   * Locally provided types override providers from `imports`.
+   */
+  providers?: Provider[];
+
+  /**
+   * The set of modules whose providers are added to the injector created from this module.
+   * Each entry is either a module type or a `{ngModule, providers}` object, which adds the
+   * extra `providers` after every import has been processed. A module imported more than once
+   * only contributes its providers the first time.
+   */
+  imports?: Array<
+    InjectorType<any> | InjectorTypeWithProviders<any> | Type<any> | any[]
+  >;
+}
+
+/**
+ * InjectorModule decorator and metadata.
+ *
+ * @Annotation
+ * @publicApi
+ */
+export const InjectorModule: InjectorModuleDecorator = undefined;
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Injector } from './injector';
+import { InjectionContextStrategy } from './injector_compatibility';
+
+/**
+ * The subset of Node's `AsyncLocalStorage` (from `async_hooks`) used by
+ * `AsyncLocalStorageInjectionContextStrategy`. Declared here so that the library does not depend on
+ * Node typings or modules.
+ *
+ * @publicApi
+ */
+export interface AsyncLocalStorageLike<T> {
+  getStore(): T | undefined;
+  enterWith(store: T): void;
+}
+
+/**
+ * Store kept in the `AsyncLocalStorage`, boxed so that a `null` or `undefined` injector can be told
+ * apart from a missing store.
+ */
+export interface InjectionContextStore {
+  injector: Injector | undefined | null;
+}
+
+/**
+ * Injection context strategy which keeps the current injector in an `AsyncLocalStorage`, so that
+ * `inject` keeps working after `await` inside an injection context and concurrent requests do not
+ * see each other's injector.
+ *
+ * @usageNotes
+ *
+ * ```
+ * import { AsyncLocalStorage } from 'async_hooks';
+ *
+ * setInjectionContextStrategy(
+ *   new AsyncLocalStorageInjectionContextStrategy(new AsyncLocalStorage())
+ * );
+ * ```
+ *
+ * @publicApi
+ */
+export class AsyncLocalStorageInjectionContextStrategy
+  implements InjectionContextStrategy
+{
+  constructor(private storage: AsyncLocalStorageLike<InjectionContextStore>) {}
+
+  getCurrentInjector(): Injector | undefined | null {
+    const store = this.storage.getStore();
+    return store === undefined ? undefined : store.injector;
+  }
+
+  setCurrentInjector(injector: Injector | undefined | null): void {
+    // Async operations started from now on keep this store, while the ones started before keep
+    // the store they were created with.
+    this.storage.enterWith({ injector });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Injector } from './injector';
+import { setCurrentInjector } from './injector_compatibility';
+import { R3Injector } from './r3_injector';
+
+/**
+ * Runs the given function in the context of the given `Injector`.
+ *
+ * Within the function's stack frame, `inject` can be used to inject dependencies from the given
+ * `Injector`. Note that with the default injection context strategy `inject` is only usable
+ * synchronously, and cannot be used in any asynchronous callbacks or after any `await` points
+ * (see `AsyncLocalStorageInjectionContextStrategy`).
+ *
+ * Calls can be nested: the previous injection context is restored once `fn` returns or throws.
+ *
+ * @param injector the injector which will satisfy calls to `inject` while `fn` is executing
+ * @param fn the closure to be run in the context of `injector`
+ * @returns the return value of the function, if any
+ * @publicApi
+ */
+export function runInInjectionContext<ReturnT>(
+  injector: Injector,
+  fn: () => ReturnT
+): ReturnT {
+  if (injector instanceof R3Injector) {
+    injector.assertNotDestroyed();
+  }
+  const previousInjector = setCurrentInjector(injector);
+  try {
+    return fn();
+  } finally {
+    setCurrentInjector(previousInjector);
+  }
+}
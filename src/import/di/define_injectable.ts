@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Injectable, InjectableProvider } from '../decorator/injectable';
+import { Type } from '../interface/type';
+import { compileInjectable } from '../render3/jit/injectable';
+import { NG_FACTORY_DEF } from '../render3/fields';
+import { stringify } from '../util/stringify';
+
+import { resolveForwardRef } from './forward_ref';
+import { getInjectFlag, USE_VALUE } from './injector_compatibility';
+import { NG_PROV_DEF } from './interface/defs';
+import { DecoratorFlags } from './interface/injector';
+
+/**
+ * Options of `defineInjectable`, the same metadata that is passed to `@Injectable`.
+ *
+ * @publicApi
+ */
+export type DefineInjectableOptions = Injectable & InjectableProvider;
+
+/**
+ * Registers `type` as an injectable without decorators, for code that is not compiled with the
+ * transformer (e.g. plain JavaScript). The `ɵfac` and `ɵprov` definitions are attached to the
+ * class the same way the transformer emits them, so injectors treat it like a compiled class.
+ *
+ * Unless another provider (`useClass`, `useFactory`, ...) is configured, `deps` lists the
+ * constructor parameters. Each entry is either a token or an array of a token and decorator
+ * instances such as `new Optional()`, like the `deps` of a provider.
+ *
+ * @usageNotes
+ *
+ * ```
+ * class Car {
+ *   constructor(engine, wheel) {}
+ * }
+ * defineInjectable(Car, {
+ *   providedIn: 'root',
+ *   deps: [Engine, [new Optional(), Wheel]],
+ * });
+ * ```
+ *
+ * @publicApi
+ */
+export function defineInjectable<T extends Type<any>>(
+  type: T,
+  options: DefineInjectableOptions = {}
+): T {
+  if (typeof type !== 'function') {
+    throw new Error(
+      `defineInjectable() expects a class, got ${stringify(type)}.`
+    );
+  }
+  if (type.hasOwnProperty(NG_PROV_DEF) || type.hasOwnProperty(NG_FACTORY_DEF)) {
+    throw new Error(`${stringify(type)} is already defined as an injectable.`);
+  }
+  const meta = options as any;
+  if (meta.deps !== undefined) {
+    assertValidDeps(type, meta.deps);
+  }
+  const constructorDeps = !(
+    meta.useClass !== undefined ||
+    meta.useFactory !== undefined ||
+    meta.useExisting !== undefined ||
+    USE_VALUE in meta
+  );
+  if (constructorDeps) {
+    const depsLength = meta.deps === undefined ? 0 : meta.deps.length;
+    if (depsLength < type.length) {
+      const name = stringify(type);
+      throw new Error(
+        `The constructor of ${name} has ${type.length} parameters, ` +
+          `but ${depsLength} deps were given to defineInjectable().`
+      );
+    }
+  }
+  compileInjectable(type, options);
+  return type;
+}
+
+function assertValidDeps(type: Type<any>, deps: unknown): void {
+  if (!Array.isArray(deps)) {
+    throw new Error(
+      `The deps of ${stringify(type)} must be an array, got ${stringify(deps)}.`
+    );
+  }
+  for (let i = 0; i < deps.length; i++) {
+    const error = getDependencyError(deps[i]);
+    if (error) {
+      throw new Error(
+        `Invalid dependency at index ${i} of ${stringify(type)}: ${error}.`
+      );
+    }
+  }
+}
+
+/**
+ * Returns why a `deps` entry cannot be injected, or `null` if it names a token.
+ */
+function getDependencyError(dep: unknown): string | null {
+  dep = resolveForwardRef(dep);
+  if (!Array.isArray(dep)) {
+    return dep == null ? `the token is ${dep}` : null;
+  }
+  if (dep.length === 0) {
+    return 'the array must contain a token';
+  }
+  let hasToken = false;
+  for (const meta of dep) {
+    if (typeof meta === 'number') {
+      return (
+        `InjectFlags are not supported in deps, ` +
+        `use decorator instances such as \`new Optional()\` instead`
+      );
+    }
+    const flag = getInjectFlag(meta);
+    if (flag === DecoratorFlags.Inject) {
+      if (meta.token == null) {
+        return `the token of @Inject() is ${meta.token}`;
+      }
+      hasToken = true;
+    } else if (typeof flag !== 'number') {
+      if (meta == null) {
+        return `the token is ${meta}`;
+      }
+      hasToken = true;
+    }
+  }
+  return hasToken ? null : 'the array only contains decorators, add a token';
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { ɵɵinject } from './injector_compatibility';
+import { INJECTOR } from './injector_token';
+import { ɵɵdefineInjectable } from './interface/defs';
+
+/**
+ * `DestroyRef` lets you set callbacks to run for any cleanup or destruction behavior.
+ * The scope of this destruction depends on where `DestroyRef` is injected: it is the injector
+ * which resolved the token, so factory and value providers can register teardown logic that runs
+ * as part of `R3Injector.destroy()`.
+ *
+ * @usageNotes
+ *
+ * ```
+ * const injector = Injector.create({
+ *   providers: [
+ *     {
+ *       provide: CONNECTION,
+ *       useFactory: () => {
+ *         const connection = connect();
+ *         inject(DestroyRef).onDestroy(() => connection.close());
+ *         return connection;
+ *       },
+ *     },
+ *   ],
+ * });
+ * ```
+ *
+ * @publicApi
+ */
+export abstract class DestroyRef {
+  /**
+   * Registers a destroy callback in a given lifecycle scope. Returns a cleanup function that can
+   * be invoked to unregister the callback.
+   */
+  abstract onDestroy(callback: () => void): () => void;
+
+  /** @nocollapse */
+  static ɵprov = /** @pureOrBreakMyCode */ ɵɵdefineInjectable({
+    token: DestroyRef,
+    providedIn: 'any',
+    factory: () => ɵɵinject(INJECTOR),
+  });
+}
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { InjectionToken } from './injection_token';
+
+/**
+ * A multi-provider token for initialization functions that will run upon construction of an
+ * injector.
+ *
+ * The functions are called in the injection context of the new injector, in the order in which
+ * their providers are declared, right after `Injector.create` (or `Injector.createAsync`, once
+ * the async providers have settled) has built it. Only the providers of the new injector itself
+ * are run, initializers of parent injectors are not run again.
+ *
+ * @publicApi
+ */
+export const INJECTOR_INITIALIZER = new InjectionToken<
+  ReadonlyArray<() => void>
+>('INJECTOR_INITIALIZER');
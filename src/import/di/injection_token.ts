@@ -9,6 +9,7 @@
 import { Type } from '../interface/type';
 
 import { ɵɵdefineInjectable } from './interface/defs';
+import { InjectorScope } from './scope';
 
 /**
  * Creates a token that can be used in a DI Provider.
@@ -56,7 +57,7 @@ export class InjectionToken<T> {
   constructor(
     protected _desc: string,
     options?: {
-      providedIn?: Type<any> | 'root' | 'platform' | 'any' | null;
+      providedIn?: Type<any> | 'any' | InjectorScope | null;
       factory: () => T;
     }
   ) {
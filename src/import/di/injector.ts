@@ -10,11 +10,15 @@ import { THROW_IF_NOT_FOUND, ɵɵinject } from './injector_compatibility';
 import { InjectorMarkers } from './injector_marker';
 import { INJECTOR } from './injector_token';
 import { ɵɵdefineInjectable } from './interface/defs';
-import { InjectFlags } from './interface/injector';
+import { InjectFlags, InjectOptions } from './interface/injector';
 import { StaticProvider } from './interface/provider';
 import { NullInjector } from './null_injector';
 import { ProviderToken } from './provider_token';
-import { createInjector } from './r3_injector';
+import {
+  createInjector,
+  createInjectorWithoutInjectorInstances,
+} from './r3_injector';
+import { INJECTOR_HOST, INJECTOR_SCOPE, InjectorScope } from './scope';
 
 export function INJECTOR_IMPL__POST_R3__(
   providers: StaticProvider[],
@@ -54,6 +58,38 @@ export abstract class Injector {
   static THROW_IF_NOT_FOUND = THROW_IF_NOT_FOUND;
   static NULL: Injector = new NullInjector();
 
+  /**
+   * Retrieves an instance from the injector based on the provided token.
+   * @returns The instance from the injector if defined, otherwise the `notFoundValue`, or the
+   * `default` of the options.
+   * @throws When the `notFoundValue` is `undefined` or `Injector.THROW_IF_NOT_FOUND`, and neither
+   * `optional` nor `default` is set.
+   */
+  abstract get<T, D>(
+    token: ProviderToken<T>,
+    notFoundValue: undefined,
+    options: InjectOptions & { default: D }
+  ): T | D;
+  /**
+   * Retrieves an instance from the injector based on the provided token.
+   * @returns The instance from the injector if defined, otherwise the `notFoundValue`.
+   * @throws When the `notFoundValue` is `undefined` or `Injector.THROW_IF_NOT_FOUND`.
+   */
+  abstract get<T>(
+    token: ProviderToken<T>,
+    notFoundValue: undefined,
+    options: InjectOptions & { optional?: false }
+  ): T;
+  /**
+   * Retrieves an instance from the injector based on the provided token.
+   * @returns The instance from the injector if defined, otherwise the `notFoundValue`.
+   * @throws When the `notFoundValue` is `undefined` or `Injector.THROW_IF_NOT_FOUND`.
+   */
+  abstract get<T>(
+    token: ProviderToken<T>,
+    notFoundValue: null | undefined,
+    options: InjectOptions
+  ): T | null;
   /**
    * Retrieves an instance from the injector based on the provided token.
    * @returns The instance from the injector if defined, otherwise the `notFoundValue`.
@@ -62,7 +98,7 @@ export abstract class Injector {
   abstract get<T>(
     token: ProviderToken<T>,
     notFoundValue?: T,
-    flags?: InjectFlags
+    flags?: InjectFlags | InjectOptions
   ): T;
   /**
    * @deprecated from v4.0.0 use ProviderToken<T>
@@ -70,6 +106,18 @@ export abstract class Injector {
    */
   abstract get(token: any, notFoundValue?: any): any;
 
+  /**
+   * Retrieves an instance from the injector based on the provided token, waiting for every async
+   * provider the instance depends on to be created first.
+   * @returns A promise of the instance if defined, otherwise of the `notFoundValue`.
+   * @throws When the `notFoundValue` is `undefined` or `Injector.THROW_IF_NOT_FOUND`.
+   */
+  abstract getAsync<T>(
+    token: ProviderToken<T>,
+    notFoundValue?: T,
+    flags?: InjectFlags | InjectOptions
+  ): Promise<T>;
+
   /**
    * Creates a new injector instance that provides one or more dependencies,
    * according to a given type or types of `StaticProvider`.
@@ -78,6 +126,10 @@ export abstract class Injector {
    * * `providers`: An array of providers of the [StaticProvider type](api/core/StaticProvider).
    * * `parent`: (optional) A parent injector.
    * * `name`: (optional) A developer-defined identifying name for the new injector.
+   * * `scope`: (optional) The scope of the new injector, such as `'root'` or a custom name like
+   *   `'request'`. Injectables `providedIn` that scope are created by the new injector.
+   * * `host`: (optional) Whether the new injector is a host boundary: lookups with the `Host`
+   *   flag (see `@Host()`) don't go further up than this injector.
    *
    * @returns The new injector instance.
    *
@@ -86,25 +138,61 @@ export abstract class Injector {
     providers: StaticProvider[];
     parent?: Injector;
     name?: string;
+    scope?: InjectorScope;
+    host?: boolean;
   }): Injector;
 
   static create(
     options:
       | StaticProvider[]
-      | { providers: StaticProvider[]; parent?: Injector; name?: string },
+      | {
+          providers: StaticProvider[];
+          parent?: Injector;
+          name?: string;
+          scope?: InjectorScope;
+          host?: boolean;
+        },
     parent?: Injector
   ): Injector {
     if (Array.isArray(options)) {
       return INJECTOR_IMPL(options, parent, '');
     } else {
       return INJECTOR_IMPL(
-        options.providers,
+        getOptionProviders(options),
         options.parent,
         options.name || ''
       );
     }
   }
 
+  /**
+   * Creates a new injector instance like `Injector.create`, and waits for the async providers
+   * (see `AsyncFactoryProvider`) declared in `providers` to be created before running its
+   * `INJECTOR_INITIALIZER` functions.
+   *
+   * @returns A promise of the new injector instance, which is rejected if any eager async provider
+   * fails once all of them have settled, with an `AsyncProvidersError` if several of them fail.
+   */
+  static async createAsync(options: {
+    providers: StaticProvider[];
+    parent?: Injector;
+    name?: string;
+    scope?: InjectorScope;
+    host?: boolean;
+  }): Promise<Injector> {
+    const name = options.name || '';
+    const injector = createInjectorWithoutInjectorInstances(
+      { name: name },
+      options.parent,
+      getOptionProviders(options),
+      name
+    );
+    await injector._resolveAsyncProviders();
+    injector._resolveInjectorDefTypes();
+    injector._runInjectorInitializers();
+    return injector;
+  }
+
   /** @nocollapse */
   static ɵprov = /** @pureOrBreakMyCode */ ɵɵdefineInjectable({
     token: Injector,
@@ -118,3 +206,22 @@ export abstract class Injector {
    */
   static __NG_ELEMENT_ID__ = InjectorMarkers.Injector;
 }
+
+/**
+ * Adds the `INJECTOR_SCOPE` and `INJECTOR_HOST` providers for the `scope` and `host` options of
+ * `Injector.create`.
+ */
+function getOptionProviders(options: {
+  providers: StaticProvider[];
+  scope?: InjectorScope;
+  host?: boolean;
+}): StaticProvider[] {
+  const providers: StaticProvider[] = [...options.providers];
+  if (options.scope) {
+    providers.push({ provide: INJECTOR_SCOPE, useValue: options.scope });
+  }
+  if (options.host) {
+    providers.push({ provide: INJECTOR_HOST, useValue: true });
+  }
+  return providers;
+}
@@ -16,10 +16,13 @@ import { Injector } from "./injector";
 import {
   DecoratorFlags,
   InjectFlags,
+  InjectOptions,
   InternalInjectFlags,
+  LazyHandle,
 } from "./interface/injector";
 import { ValueProvider } from "./interface/provider";
 import { ProviderToken } from "./provider_token";
+import { R3Injector } from "./r3_injector";
 
 const _THROW_IF_NOT_FOUND = {};
 export const THROW_IF_NOT_FOUND = _THROW_IF_NOT_FOUND;
@@ -43,38 +46,87 @@ export const USE_VALUE = getClosureSafeProperty<ValueProvider>({
 });
 
 /**
- * Current injector value used by `inject`.
+ * Storage of the current injector value used by `inject`.
  * - `undefined`: it is an error to call `inject`
  * - `null`: `inject` can be called but there is no injector (limp-mode).
  * - Injector instance: Use the injector for resolution.
+ *
+ * @see `setInjectionContextStrategy`
+ * @publicApi
+ */
+export interface InjectionContextStrategy {
+  getCurrentInjector(): Injector | undefined | null;
+  setCurrentInjector(injector: Injector | undefined | null): void;
+}
+
+/**
+ * Default strategy, which keeps the current injector in a module-level variable. The injection
+ * context is only available synchronously.
+ */
+class GlobalInjectionContextStrategy implements InjectionContextStrategy {
+  private currentInjector: Injector | undefined | null = undefined;
+
+  getCurrentInjector(): Injector | undefined | null {
+    return this.currentInjector;
+  }
+
+  setCurrentInjector(injector: Injector | undefined | null): void {
+    this.currentInjector = injector;
+  }
+}
+
+let _injectionContext: InjectionContextStrategy =
+  new GlobalInjectionContextStrategy();
+
+/**
+ * Replaces the strategy used to store the current injector, for example with an
+ * `AsyncLocalStorageInjectionContextStrategy` to keep the injection context across `await` on Node.
+ *
+ * Should be called once, before any injector is used.
+ *
+ * @returns the former strategy
+ * @publicApi
  */
-let _currentInjector: Injector | undefined | null = undefined;
+export function setInjectionContextStrategy(
+  strategy: InjectionContextStrategy
+): InjectionContextStrategy {
+  const former = _injectionContext;
+  _injectionContext = strategy;
+  return former;
+}
 
 export function setCurrentInjector(
   injector: Injector | null | undefined
 ): Injector | undefined | null {
-  const former = _currentInjector;
-  _currentInjector = injector;
+  const former = _injectionContext.getCurrentInjector();
+  _injectionContext.setCurrentInjector(injector);
   return former;
 }
 
 export function injectInjectorOnly<T>(token: ProviderToken<T>): T;
 export function injectInjectorOnly<T>(
   token: ProviderToken<T>,
-  flags?: InjectFlags
+  flags?: InjectFlags,
+  notFoundValue?: unknown
 ): T | null;
 export function injectInjectorOnly<T>(
   token: ProviderToken<T>,
-  flags = InjectFlags.Default
+  flags = InjectFlags.Default,
+  notFoundValue?: unknown
 ): T | null {
-  if (_currentInjector === undefined) {
+  const currentInjector = _injectionContext.getCurrentInjector();
+  if (currentInjector === undefined) {
     throw new Error(`inject() must be called from an injection context`);
-  } else if (_currentInjector === null) {
-    return injectRootLimpMode(token, undefined, flags);
+  } else if (currentInjector === null) {
+    return injectRootLimpMode(token, notFoundValue as T | undefined, flags);
   } else {
-    return _currentInjector.get(
+    return currentInjector.get(
       token,
-      flags & InjectFlags.Optional ? null : undefined,
+      notFoundValue !== undefined
+        ? (notFoundValue as T)
+        : flags & InjectFlags.Optional
+        ? null
+        : undefined,
       flags
     );
   }
@@ -101,8 +153,56 @@ export function ɵɵinject<T>(
 export function ɵɵinject<T>(
   token: ProviderToken<T>,
   flags = InjectFlags.Default
-): T | null {
-  return injectInjectorOnly(resolveForwardRef(token), flags);
+): T | LazyHandle<T | null> | null {
+  return injectInternal(resolveForwardRef(token), flags);
+}
+
+function injectInternal<T>(
+  token: ProviderToken<T>,
+  flags: InjectFlags,
+  notFoundValue?: unknown
+): T | LazyHandle<T | null> | null {
+  if (flags & InjectFlags.Lazy) {
+    return injectLazy(token, flags, notFoundValue);
+  }
+  return injectInjectorOnly(token, flags, notFoundValue);
+}
+
+/**
+ * Captures the current injector and returns a `LazyHandle` which resolves `token` through it on
+ * its first call.
+ */
+function injectLazy<T>(
+  token: ProviderToken<T>,
+  flags: InjectFlags,
+  notFoundValue: unknown
+): LazyHandle<T | null> {
+  const injector = _injectionContext.getCurrentInjector();
+  if (injector === undefined) {
+    throw new Error(`inject() must be called from an injection context`);
+  }
+  const resolveFlags = flags & ~InjectFlags.Lazy;
+  // The value is recorded as a dependency of the consumer, to destroy the consumer first.
+  const asDependent =
+    injector instanceof R3Injector
+      ? injector._captureDependent()
+      : <R>(fn: () => R) => fn();
+  let resolved = false;
+  let value: T | null;
+  return () => {
+    if (!resolved) {
+      const previousInjector = setCurrentInjector(injector);
+      try {
+        value = asDependent(() =>
+          injectInjectorOnly(token, resolveFlags, notFoundValue)
+        );
+      } finally {
+        setCurrentInjector(previousInjector);
+      }
+      resolved = true;
+    }
+    return value;
+  };
 }
 
 /**
@@ -119,6 +219,8 @@ export function ɵɵinject<T>(
  * @param flags Optional flags that control how injection is executed.
  * The flags correspond to injection strategies that can be specified with
  * parameter decorators `@Host`, `@Self`, `@SkipSef`, and `@Optional`.
+ * Alternatively an `InjectOptions` object. The result is only nullable when `optional` is set,
+ * `default` replaces `null` by another value and `lazy` returns a `LazyHandle`.
  * @returns the injected value if injection is successful, `null` otherwise.
  *
  * @usageNotes
@@ -129,40 +231,114 @@ export function ɵɵinject<T>(
  *
  * @publicApi
  */
-export const inject = ɵɵinject;
+export function inject<T>(token: ProviderToken<T>): T;
+export function inject<T>(
+  token: ProviderToken<T>,
+  flags?: InjectFlags
+): T | null;
+export function inject<T, D>(
+  token: ProviderToken<T>,
+  options: InjectOptions & { lazy: true; default: D }
+): LazyHandle<T | D>;
+export function inject<T>(
+  token: ProviderToken<T>,
+  options: InjectOptions & { lazy: true; optional?: false }
+): LazyHandle<T>;
+export function inject<T>(
+  token: ProviderToken<T>,
+  options: InjectOptions & { lazy: true }
+): LazyHandle<T | null>;
+export function inject<T, D>(
+  token: ProviderToken<T>,
+  options: InjectOptions & { default: D }
+): T | D;
+export function inject<T>(
+  token: ProviderToken<T>,
+  options: InjectOptions & { optional?: false }
+): T;
+export function inject<T>(
+  token: ProviderToken<T>,
+  options: InjectOptions
+): T | null;
+export function inject<T>(
+  token: ProviderToken<T>,
+  flags: InjectFlags | InjectOptions = InjectFlags.Default
+): T | LazyHandle<T | null> | null {
+  return injectInternal(
+    resolveForwardRef(token),
+    convertToBitFlags(flags)!,
+    getDefaultValue(flags)
+  );
+}
+
+/**
+ * Converts the `InjectOptions` accepted by `inject` and `Injector.get` into `InjectFlags`.
+ */
+export function convertToBitFlags(
+  flags: InjectOptions | InjectFlags | undefined
+): InjectFlags | undefined {
+  if (typeof flags === "undefined" || typeof flags === "number") {
+    return flags;
+  }
+  return (InternalInjectFlags.Default |
+    ((flags.optional && InternalInjectFlags.Optional) as number) |
+    ((flags.host && InternalInjectFlags.Host) as number) |
+    ((flags.self && InternalInjectFlags.Self) as number) |
+    ((flags.skipSelf && InternalInjectFlags.SkipSelf) as number) |
+    ((flags.lazy && InternalInjectFlags.Lazy) as number)) as InjectFlags;
+}
+
+/**
+ * Reads the `default` of `InjectOptions`, the value returned when the token is not found.
+ */
+export function getDefaultValue(
+  flags: InjectOptions | InjectFlags | undefined
+): unknown {
+  return typeof flags === "object" ? flags.default : undefined;
+}
 
 export function injectArgs(types: (ProviderToken<any> | any[])[]): any[] {
   const args: any[] = [];
   for (let i = 0; i < types.length; i++) {
-    const arg = resolveForwardRef(types[i]);
-    if (Array.isArray(arg)) {
-      if (arg.length === 0) {
-        throw new Error("Arguments array must have arguments.");
-      }
-      let type: Type<any> | undefined = undefined;
-      let flags: InjectFlags = InjectFlags.Default;
-
-      for (let j = 0; j < arg.length; j++) {
-        const meta = arg[j];
-        const flag = getInjectFlag(meta);
-        if (typeof flag === "number") {
-          // Special case when we handle @Inject decorator.
-          if (flag === DecoratorFlags.Inject) {
-            type = meta.token;
-          } else {
-            flags |= flag;
-          }
-        } else {
-          type = meta;
-        }
-      }
+    const { token, flags } = getDependency(types[i]);
+    args.push(ɵɵinject(token, flags));
+  }
+  return args;
+}
+
+/**
+ * Reads the token and the flags of an entry of a provider's `deps`, which is either a token or an
+ * array of DI decorators and a token.
+ */
+export function getDependency(dep: ProviderToken<any> | any[]): {
+  token: ProviderToken<any>;
+  flags: InjectFlags;
+} {
+  const arg = resolveForwardRef(dep);
+  if (!Array.isArray(arg)) {
+    return { token: arg, flags: InjectFlags.Default };
+  }
+  if (arg.length === 0) {
+    throw new Error("Arguments array must have arguments.");
+  }
+  let type: Type<any> | undefined = undefined;
+  let flags: InjectFlags = InjectFlags.Default;
 
-      args.push(ɵɵinject(type!, flags));
+  for (let j = 0; j < arg.length; j++) {
+    const meta = arg[j];
+    const flag = getInjectFlag(meta);
+    if (typeof flag === "number") {
+      // Special case when we handle @Inject decorator.
+      if (flag === DecoratorFlags.Inject) {
+        type = meta.token;
+      } else {
+        flags |= flag;
+      }
     } else {
-      args.push(ɵɵinject(arg));
+      type = meta;
     }
   }
-  return args;
+  return { token: type!, flags };
 }
 
 /**
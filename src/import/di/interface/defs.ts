@@ -8,11 +8,13 @@
 
 import { Type } from '../../interface/type';
 import { getClosureSafeProperty } from '../../util/property';
+import { InjectorScope } from '../scope';
 import {
   ClassProvider,
   ConstructorProvider,
   ExistingProvider,
   FactoryProvider,
+  ProviderLifetime,
   StaticClassProvider,
   ValueProvider,
 } from './provider';
@@ -32,16 +34,26 @@ import {
  *   deployed to npm, and should be treated as public api.
 
  */
-export interface ɵɵInjectableDeclaration<T> {
+export interface ɵɵInjectableDeclaration<
+  T,
+  ProvidedIn extends InjectorType<any> | 'any' | InjectorScope | null =
+    | InjectorType<any>
+    | 'any'
+    | InjectorScope
+    | null
+> {
   /**
    * Specifies that the given type belongs to a particular injector:
    * - `InjectorType` such as `NgModule`,
    * - `'root'` the root injector
    * - `'any'` all injectors.
+   * - any other name, the injectors created with that scope.
    * - `null`, does not belong to any injector. Must be explicitly listed in the injector
    *   `providers`.
+   *
+   * The emitted `.d.ts` files narrow it to the literal type of the `providedIn` option.
    */
-  providedIn: InjectorType<any> | 'root' | 'platform' | 'any' | null;
+  providedIn: ProvidedIn;
 
   /**
    * The token to which this definition belongs.
@@ -59,6 +71,11 @@ export interface ɵɵInjectableDeclaration<T> {
    * In a case of no explicit injector, a location where the instance of the injectable is stored.
    */
   value: T | undefined;
+
+  /**
+   * Whether injectors keep a single instance of the injectable or create one on every injection.
+   */
+  lifetime: ProviderLifetime;
 }
 
 /**
@@ -90,6 +107,13 @@ export interface ɵɵInjectorDef<T> {
   imports: (InjectorType<any> | InjectorTypeWithProviders<any>)[];
 }
 
+/**
+ * Type of the `ɵinj` field which the compiler adds to an `@InjectorModule` class.
+ *
+ * @codeGenApi
+ */
+export type ɵɵInjectorDeclaration<T> = ɵɵInjectorDef<T>;
+
 /**
  * A `Type` which has a `ɵprov: ɵɵInjectableDeclaration` static field.
  *
@@ -154,20 +178,24 @@ export interface InjectorTypeWithProviders<T> {
  *   provided in the `'root'` injector, which will be the application-level injector in most apps.
  * * `factory` gives the zero argument function which will create an instance of the injectable.
  *   The factory can call `inject` to access the `Injector` and request injection of dependencies.
+ * * `lifetime` is `'transient'` when the factory should be called on every injection instead of
+ *   once per injector.
  *
  * @codeGenApi
  * @publicApi This instruction has been emitted by ViewEngine for some time and is deployed to npm.
  */
 export function ɵɵdefineInjectable<T>(opts: {
   token: unknown;
-  providedIn?: Type<any> | 'root' | 'platform' | 'any' | null;
+  providedIn?: Type<any> | 'any' | InjectorScope | null;
   factory: () => T;
+  lifetime?: ProviderLifetime;
 }): unknown {
   return {
     token: opts.token,
     providedIn: (opts.providedIn as any) || null,
     factory: opts.factory,
     value: undefined,
+    lifetime: opts.lifetime || 'singleton',
   } as ɵɵInjectableDeclaration<T>;
 }
 
@@ -207,6 +235,18 @@ export function getInjectableDef<T>(
   return getOwnDefinition(type, NG_PROV_DEF);
 }
 
+/**
+ * Read the injector def type (`ɵinj`) for `type` in a way which is immune to accidentally reading
+ * inherited value.
+ *
+ * @param type type which may have an injector def (`ɵinj`)
+ */
+export function getInjectorDef<T>(type: any): ɵɵInjectorDef<T> | null {
+  return type && type.hasOwnProperty(NG_INJ_DEF)
+    ? (type as any)[NG_INJ_DEF]
+    : null;
+}
+
 /**
  * Return definition only if it is defined directly on `type` and is not inherited from a base
  * class of `type`.
@@ -221,3 +261,6 @@ function getOwnDefinition<T>(
 export const NG_PROV_DEF = getClosureSafeProperty({
   ɵprov: getClosureSafeProperty,
 });
+export const NG_INJ_DEF = getClosureSafeProperty({
+  ɵinj: getClosureSafeProperty,
+});
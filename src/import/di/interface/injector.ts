@@ -27,6 +27,10 @@ export enum InjectFlags {
   /** Check self and check parent injector if needed */
   Default = 0b0000,
 
+  /** Retrieve the dependency from any injector until reaching a host boundary injector, see
+   * `INJECTOR_HOST`. */
+  Host = 0b0001,
+
   /** Don't ascend to ancestors of the node requesting injection. */
   Self = 0b0010,
 
@@ -35,6 +39,9 @@ export enum InjectFlags {
 
   /** Inject `defaultValue` instead if token not found. */
   Optional = 0b1000,
+
+  /** Inject a function which resolves the token when it is first called, see `LazyHandle`. */
+  Lazy = 0b10000,
 }
 /**
  * This enum is an exact copy of the `InjectFlags` enum above, but the difference is that this is a
@@ -48,6 +55,10 @@ export const enum InternalInjectFlags {
   /** Check self and check parent injector if needed */
   Default = 0b0000,
 
+  /** Retrieve the dependency from any injector until reaching a host boundary injector, see
+   * `INJECTOR_HOST`. */
+  Host = 0b0001,
+
   /** Don't ascend to ancestors of the node requesting injection. */
   Self = 0b0010,
 
@@ -56,4 +67,55 @@ export const enum InternalInjectFlags {
 
   /** Inject `defaultValue` instead if token not found. */
   Optional = 0b1000,
+
+  /** Inject a function which resolves the token when it is first called, see `LazyHandle`. */
+  Lazy = 0b10000,
+}
+
+/**
+ * Type of the options argument to `inject` and `Injector.get`.
+ *
+ * @publicApi
+ */
+export interface InjectOptions {
+  /**
+   * Use optional injection, and return `null` if the requested token is not found.
+   */
+  optional?: boolean;
+
+  /**
+   * Start injection at the parent of the current injector.
+   */
+  skipSelf?: boolean;
+
+  /**
+   * Only query the current injector for the token, and don't fall back to the parent injector if
+   * it's not found.
+   */
+  self?: boolean;
+
+  /**
+   * Stop injection at the nearest host boundary injector, see `INJECTOR_HOST`.
+   */
+  host?: boolean;
+
+  /**
+   * Value returned instead of throwing when the requested token is not found.
+   */
+  default?: unknown;
+
+  /**
+   * Return a `LazyHandle` instead of the value, so that the token is only resolved (and its
+   * instance only created) when the handle is first called. Only supported by `inject`.
+   */
+  lazy?: boolean;
 }
+
+/**
+ * Function returned for a lazy injection. The first call resolves the token through the injector
+ * that was active when the handle was created, even if that injection context has ended since;
+ * later calls return the same value.
+ *
+ * @publicApi
+ */
+export type LazyHandle<T> = () => T;
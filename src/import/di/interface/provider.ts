@@ -8,6 +8,18 @@
 
 import { Type } from "../../interface/type";
 
+/**
+ * How long an instance created by a provider is kept by the injector.
+ *
+ * - `'singleton'`: the factory is called once and the instance is shared by every injection
+ *   from the injector. This is the default.
+ * - `'transient'`: the factory is called again for every `get`/`inject` of the token. Instances
+ *   with an `ngOnDestroy` hook are still destroyed together with the injector.
+ *
+ * @publicApi
+ */
+export type ProviderLifetime = "singleton" | "transient";
+
 /**
  * Configures the `Injector` to return a value for a token.
  * Base for `ValueProvider` decorator.
@@ -99,6 +111,12 @@ export interface StaticClassProvider extends StaticClassSansProvider {
    * providers spread across many files to provide configuration information to a common token.
    */
   multi?: boolean;
+
+  /**
+   * Whether the injector keeps a single instance for the token or creates one on every
+   * injection. Defaults to `'singleton'`.
+   */
+  lifetime?: ProviderLifetime;
 }
 
 /**
@@ -148,6 +166,12 @@ export interface ConstructorProvider extends ConstructorSansProvider {
    * providers spread across many files to provide configuration information to a common token.
    */
   multi?: boolean;
+
+  /**
+   * Whether the injector keeps a single instance for the token or creates one on every
+   * injection. Defaults to `'singleton'`.
+   */
+  lifetime?: ProviderLifetime;
 }
 
 /**
@@ -191,6 +215,12 @@ export interface ExistingProvider extends ExistingSansProvider {
    * providers spread across many files to provide configuration information to a common token.
    */
   multi?: boolean;
+
+  /**
+   * Whether the injector keeps a single instance for the token or creates one on every
+   * injection. Defaults to `'singleton'`.
+   */
+  lifetime?: ProviderLifetime;
 }
 
 /**
@@ -244,6 +274,55 @@ export interface FactoryProvider extends FactorySansProvider {
    * providers spread across many files to provide configuration information to a common token.
    */
   multi?: boolean;
+
+  /**
+   * Whether the injector keeps a single instance for the token or creates one on every
+   * injection. Defaults to `'singleton'`.
+   */
+  lifetime?: ProviderLifetime;
+}
+
+/**
+ * Configures the `Injector` to return a value by awaiting the promise returned from a
+ * `useAsyncFactory` function.
+ *
+ * Tokens configured this way can only be retrieved with `Injector.getAsync` until the promise
+ * has settled. Concurrent requests share the same pending promise.
+ *
+ * @see `Injector.createAsync()`
+ *
+ * @publicApi
+ */
+export interface AsyncFactoryProvider {
+  /**
+   * An injection token. (Typically an instance of `Type` or `InjectionToken`, but can be `any`).
+   */
+  provide: any;
+
+  /**
+   * A function to invoke to create a value for this `token`. The function is invoked with
+   * resolved values of `token`s in the `deps` field and returns a promise of the value.
+   * Async dependencies are awaited before the function is invoked.
+   */
+  useAsyncFactory: (...args: any[]) => Promise<any>;
+
+  /**
+   * A list of `token`s to be resolved by the injector. The list of values is then
+   * used as arguments to the `useAsyncFactory` function.
+   */
+  deps?: any[];
+
+  /**
+   * When false, `Injector.createAsync` does not wait for this provider, which is then created on
+   * the first `getAsync` call instead. Defaults to `true`.
+   */
+  eager?: boolean;
+
+  /**
+   * When true, injector returns an array of instances. This is useful to allow multiple
+   * providers spread across many files to provide configuration information to a common token.
+   */
+  multi?: boolean;
 }
 
 /**
@@ -261,6 +340,7 @@ export type StaticProvider =
   | StaticClassProvider
   | ConstructorProvider
   | FactoryProvider
+  | AsyncFactoryProvider
   | any[];
 
 /**
@@ -323,6 +403,12 @@ export interface ClassProvider extends ClassSansProvider {
    * providers spread across many files to provide configuration information to a common token.
    */
   multi?: boolean;
+
+  /**
+   * Whether the injector keeps a single instance for the token or creates one on every
+   * injection. Defaults to `'singleton'`.
+   */
+  lifetime?: ProviderLifetime;
 }
 
 /**
@@ -340,6 +426,7 @@ export type Provider =
   | ConstructorProvider
   | ExistingProvider
   | FactoryProvider
+  | AsyncFactoryProvider
   | any[];
 
 /**
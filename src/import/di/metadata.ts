@@ -208,3 +208,102 @@ export const SkipSelf: SkipSelfDecorator =
     makeParamDecorator('SkipSelf'),
     InternalInjectFlags.SkipSelf
   );
+
+/**
+ * Type of the `Host` decorator / constructor function.
+ *
+ * @publicApi
+ */
+export interface HostDecorator {
+  /**
+   * Parameter decorator on a constructor parameter which tells the DI framework to resolve the
+   * dependency in the injectors up to, and including, the nearest host boundary injector (an
+   * injector created with `host: true`, see `INJECTOR_HOST`), instead of going up to the root.
+   *
+   * @usageNotes
+   *
+   * ```ts
+   * const plugin = Injector.create({providers: [], parent: app, host: true});
+   * const widget = Injector.create({providers: [{provide: Widget}], parent: plugin});
+   *
+   * @Injectable()
+   * class Widget {
+   *   // Found in `plugin` or `widget`, but never in `app`.
+   *   constructor(@Host() @Optional() private config: PluginConfig) {}
+   * }
+   * ```
+   *
+   * @see `Self`
+   * @see `Optional`
+   */
+  (): any;
+  new (): Host;
+}
+
+/**
+ * Type of the Host metadata.
+ *
+ * @publicApi
+ */
+export interface Host {}
+
+/**
+ * Host decorator and metadata.
+ *
+ * @Annotation
+ * @publicApi
+ */
+export const Host: HostDecorator =
+  // Disable tslint because `InternalInjectFlags` is a const enum which gets inlined.
+  // tslint:disable-next-line: no-toplevel-property-access
+  attachInjectFlag(makeParamDecorator('Host'), InternalInjectFlags.Host);
+
+/**
+ * Type of the Lazy decorator / constructor function.
+ *
+ * @publicApi
+ */
+export interface LazyDecorator {
+  /**
+   * Parameter decorator to be used on constructor parameters, which injects a `LazyHandle` for
+   * the dependency instead of its value. The dependency is only resolved, and created, when the
+   * handle is first called.
+   *
+   * @usageNotes
+   *
+   * ```ts
+   * @Injectable()
+   * class Car {
+   *   constructor(@Lazy() private engine: LazyHandle<Engine>) {}
+   *
+   *   start() {
+   *     this.engine().start();
+   *   }
+   * }
+   * ```
+   *
+   * The transformer reads the token from the type argument of the handle, so
+   * `@Lazy() engine: LazyHandle<Engine>` injects `Engine`. `@Inject()` is only needed when the
+   * token is not a class, e.g. `@Inject(NAME) @Lazy() name: LazyHandle<string>`.
+   */
+  (): any;
+  new (): Lazy;
+}
+
+/**
+ * Type of the Lazy metadata.
+ *
+ * @publicApi
+ */
+export interface Lazy {}
+
+/**
+ * Lazy decorator and metadata.
+ *
+ * @Annotation
+ * @publicApi
+ */
+export const Lazy: LazyDecorator =
+  // Disable tslint because `InternalInjectFlags` is a const enum which gets inlined.
+  // tslint:disable-next-line: no-toplevel-property-access
+  attachInjectFlag(makeParamDecorator('Lazy'), InternalInjectFlags.Lazy);
@@ -7,6 +7,7 @@
  */
 
 import { stringify } from "../util/stringify";
+import { getInjectableDef } from "./interface/defs";
 import { Injector } from "./injector";
 import { THROW_IF_NOT_FOUND } from "./injector_compatibility";
 
@@ -14,11 +15,30 @@ export class NullInjector implements Injector {
   get(token: any, notFoundValue: any = THROW_IF_NOT_FOUND): any {
     if (notFoundValue === THROW_IF_NOT_FOUND) {
       const error = new Error(
-        `NullInjectorError: No provider for ${stringify(token)}!`
+        `NullInjectorError: No provider for ${stringify(token)}!${getScopeHint(
+          token
+        )}`
       );
       error.name = "NullInjectorError";
       throw error;
     }
     return notFoundValue;
   }
+
+  getAsync(token: any, notFoundValue: any = THROW_IF_NOT_FOUND): Promise<any> {
+    return new Promise((resolve) => resolve(this.get(token, notFoundValue)));
+  }
+}
+
+/**
+ * Explains why a token `providedIn` a named scope was not found.
+ */
+function getScopeHint(token: any): string {
+  const def = token != null ? getInjectableDef(token) : null;
+  if (def && typeof def.providedIn === "string" && def.providedIn !== "any") {
+    return ` ${stringify(token)} is provided in the '${
+      def.providedIn
+    }' scope, but no injector in the chain has that scope.`;
+  }
+  return "";
 }
@@ -11,16 +11,27 @@
 import { OnDestroy } from '../interface/lifecycle_hooks';
 import { Type } from '../interface/type';
 import { FactoryFn, getFactoryDef } from '../render3/definition_factory';
+import { getFactoryDeps } from '../render3/di';
+import { RuntimeError, RuntimeErrorCode } from '../render3/error_code';
+import {
+  AsyncProvidersError,
+  InjectorDestroyError,
+  throwCyclicDependencyError,
+} from '../render3/errors_di';
 
 import { deepForEach, newArray } from '../util/array_utils';
 import { EMPTY_ARRAY } from '../util/empty';
 import { stringify } from '../util/stringify';
 
 import { resolveForwardRef } from './forward_ref';
+import { INJECTOR_INITIALIZER } from './initializer_token';
 import { InjectionToken } from './injection_token';
 import { Injector } from './injector';
 import {
   catchInjectorError,
+  convertToBitFlags,
+  getDefaultValue,
+  getDependency,
   injectArgs,
   NG_TEMP_TOKEN_PATH,
   setCurrentInjector,
@@ -31,16 +42,19 @@ import {
 import { INJECTOR } from './injector_token';
 import {
   getInjectableDef,
+  getInjectorDef,
   InjectorType,
   InjectorTypeWithProviders,
   ɵɵInjectableDeclaration,
 } from './interface/defs';
-import { InjectFlags } from './interface/injector';
+import { InjectFlags, InjectOptions } from './interface/injector';
 import {
+  AsyncFactoryProvider,
   ClassProvider,
   ConstructorProvider,
   ExistingProvider,
   FactoryProvider,
+  ProviderLifetime,
   StaticClassProvider,
   StaticProvider,
   TypeProvider,
@@ -48,7 +62,7 @@ import {
 } from './interface/provider';
 import { NullInjector } from './null_injector';
 import { ProviderToken } from './provider_token';
-import { INJECTOR_SCOPE } from './scope';
+import { INJECTOR_HOST, INJECTOR_SCOPE, InjectorScope } from './scope';
 
 /**
  * Internal type for a single provider in a deep provider array.
@@ -60,6 +74,7 @@ type SingleProvider =
   | ConstructorProvider
   | ExistingProvider
   | FactoryProvider
+  | AsyncFactoryProvider
   | StaticClassProvider;
 
 /**
@@ -96,6 +111,53 @@ interface Record<T> {
   factory: (() => T) | undefined;
   value: T | {};
   multi: any[] | undefined;
+  /**
+   * Creates the value of an async provider. Called in the injection context of the injector; async
+   * dependencies requested by it synchronously are awaited before it is called again.
+   */
+  asyncFactory?: () => Promise<T>;
+  /**
+   * Promise shared by every request for an async provider while its value is being created.
+   */
+  pending?: Promise<T>;
+  /**
+   * The async provider this record's `asyncFactory` is currently waiting for, used to detect
+   * circular dependencies between async providers.
+   */
+  awaiting?: [ProviderToken<any>, Record<any>];
+  /**
+   * Whether `Injector.createAsync` waits for this async provider.
+   */
+  eager?: boolean;
+  /**
+   * Whether the factory is called on every request instead of once, see `ProviderLifetime`.
+   */
+  transient?: boolean;
+  /**
+   * The `deps` of the provider, if it lists them. The async providers among them, and among the
+   * dependencies attached to the factories by the transformer, are created before the factory is
+   * called.
+   */
+  deps?: any[];
+}
+
+/**
+ * Thrown when an async provider is requested before its value has been created. `getAsync`
+ * catches it, waits for the provider and then retries the request.
+ */
+class AsyncProviderNotReadyError extends RuntimeError {
+  constructor(
+    readonly token: ProviderToken<any>,
+    readonly record: Record<any>,
+    readonly injector: R3Injector
+  ) {
+    super(
+      RuntimeErrorCode.ASYNC_PROVIDER_NOT_READY,
+      `${stringify(
+        token
+      )} is provided asynchronously and has not been created yet, use getAsync() to retrieve it`
+    );
+  }
 }
 
 /**
@@ -116,6 +178,7 @@ export function createInjector(
     name
   );
   injector._resolveInjectorDefTypes();
+  injector._runInjectorInitializers();
   return injector;
 }
 
@@ -152,15 +215,47 @@ export class R3Injector {
   private injectorDefTypes = new Set<InjectorType<any>>();
 
   /**
-   * Set of values instantiated by this injector which contain `ngOnDestroy` lifecycle hooks.
+   * Set of values instantiated by this injector which contain `ngOnDestroy` lifecycle hooks, in the
+   * order in which they were created. Callbacks registered through `onDestroy` are kept here too,
+   * wrapped in an `OnDestroy` object.
+   */
+  private onDestroyHooks = new Set<OnDestroy>();
+
+  /**
+   * The values of this injector that each value injected, used to destroy a value before its
+   * dependencies. A lazy dependency is added to the list when it is resolved.
    */
-  private onDestroy = new Set<OnDestroy>();
+  private dependencies = new Map<any, any[]>();
+
+  /**
+   * The lists of dependencies of the values whose factories are currently being called, parallel
+   * to `hydrating`. The values returned by `hydrate` are added to the last one.
+   */
+  private creating: any[][] = [];
+
+  /**
+   * Tokens whose factories are currently being called by this injector, in the order in which
+   * they were requested. Used to report the full path of a circular dependency.
+   */
+  private hydrating: ProviderToken<any>[] = [];
+
+  /**
+   * Transient values with `ngOnDestroy` hooks created by the current attempt of `resolveAsync`,
+   * which are released again if the attempt is aborted by an async provider that is not ready.
+   */
+  private attemptTransients: OnDestroy[] | undefined = undefined;
 
   /**
    * Flag indicating this injector provides the APP_ROOT_SCOPE token, and thus counts as the
    * root scope.
    */
-  private readonly scope: 'root' | 'platform' | null;
+  private readonly scope: InjectorScope | null;
+
+  /**
+   * Flag indicating this injector provides the INJECTOR_HOST token, and thus is the last injector
+   * queried by lookups with the `Host` flag.
+   */
+  private readonly host: boolean;
 
   readonly source: string | null;
 
@@ -186,6 +281,11 @@ export class R3Injector {
         this.processProvider(provider, def, additionalProviders)
       );
 
+    const dedupStack: InjectorType<any>[] = [];
+    deepForEach([def], (injectorDef) =>
+      this.processInjectorType(injectorDef, [], dedupStack)
+    );
+
     // Make sure the INJECTOR token provides this injector.
     this.records.set(INJECTOR, makeRecord(undefined, this));
 
@@ -193,6 +293,8 @@ export class R3Injector {
     // any injectable scoped to APP_ROOT_SCOPE.
     const record = this.records.get(INJECTOR_SCOPE);
     this.scope = record != null ? record.value : null;
+    const hostRecord = this.records.get(INJECTOR_HOST);
+    this.host = hostRecord != null && hostRecord.value === true;
 
     // Source name, used for debugging
     this.source = source || (typeof def === 'object' ? null : stringify(def));
@@ -202,71 +304,120 @@ export class R3Injector {
    * Destroy the injector and release references to every instance or provider associated with it.
    *
    * Also calls the `OnDestroy` lifecycle hooks of every instance that was created for which a
-   * hook was found.
+   * hook was found, so that an instance is destroyed before its dependencies, including the lazy
+   * ones it resolved later on. Every hook is called even if some of them throw; a single failure
+   * is rethrown as is, several failures are reported together in an `InjectorDestroyError`.
+   *
+   * A hook returning a promise is reported as a failure, as `destroy` cannot wait for it; use
+   * `destroyAsync` to destroy such an injector.
    */
   destroy(): void {
     this.assertNotDestroyed();
 
     // Set destroyed = true first, in case lifecycle hooks re-enter destroy().
     this._destroyed = true;
+    const errors: any[] = [];
     try {
       // Call all the lifecycle hooks.
-      this.onDestroy.forEach((service) => service.ngOnDestroy());
+      for (const service of this.getDestroyOrder()) {
+        try {
+          const result = service.ngOnDestroy();
+          if (isPromise(result)) {
+            // The rejection cannot be reported anymore, the error below points to `destroyAsync`.
+            result.then(undefined, () => {});
+            errors.push(asyncDestroyHookError(service));
+          }
+        } catch (e) {
+          errors.push(e);
+        }
+      }
     } finally {
-      // Release all references.
-      this.records.clear();
-      this.onDestroy.clear();
-      this.injectorDefTypes.clear();
+      this.releaseReferences();
     }
+    throwDestroyErrors(errors);
+  }
+
+  /**
+   * Registers a callback to be called when this injector is destroyed. Callbacks are called along
+   * with the `ngOnDestroy` hooks, in reverse registration order.
+   *
+   * @returns a function that unregisters the callback
+   */
+  onDestroy(callback: () => void | Promise<void>): () => void {
+    this.assertNotDestroyed();
+    const hook: OnDestroy = { ngOnDestroy: callback };
+    this.onDestroyHooks.add(hook);
+    return () => {
+      this.onDestroyHooks.delete(hook);
+    };
+  }
+
+  /**
+   * Destroy the injector like `destroy`, but wait for each promise returned from an `ngOnDestroy`
+   * hook before calling the next one.
+   */
+  async destroyAsync(): Promise<void> {
+    this.assertNotDestroyed();
+
+    // Set destroyed = true first, in case lifecycle hooks re-enter destroy().
+    this._destroyed = true;
+    const errors: any[] = [];
+    try {
+      // Call all the lifecycle hooks.
+      for (const service of this.getDestroyOrder()) {
+        try {
+          await service.ngOnDestroy();
+        } catch (e) {
+          errors.push(e);
+        }
+      }
+    } finally {
+      this.releaseReferences();
+    }
+    throwDestroyErrors(errors);
   }
 
   get<T>(
     token: ProviderToken<T>,
     notFoundValue: any = THROW_IF_NOT_FOUND,
-    flags = InjectFlags.Default
+    options: InjectFlags | InjectOptions = InjectFlags.Default
   ): T {
     this.assertNotDestroyed();
+    if (notFoundValue === THROW_IF_NOT_FOUND && typeof options === 'object') {
+      const defaultValue = getDefaultValue(options);
+      notFoundValue = defaultValue !== undefined ? defaultValue : notFoundValue;
+    }
+    const flags = convertToBitFlags(options)!;
     // Set the injection context.
     const previousInjector = setCurrentInjector(this);
     try {
       // Check for the SkipSelf flag.
       if (!(flags & InjectFlags.SkipSelf)) {
         // SkipSelf isn't set, check if the record belongs to this injector.
-        let record: Record<T> | undefined | null = this.records.get(token);
-        if (record === undefined) {
-          // No record, but maybe the token is scoped to this injector. Look for an injectable
-          // def with a scope matching this injector.
-          const def = couldBeInjectableType(token) && getInjectableDef(token);
-          if (def && this.injectableDefInScope(def)) {
-            // Found an injectable def and it's scoped to this injector. Pretend as if it was here
-            // all along.
-            record = makeRecord(
-              injectableDefOrInjectorDefFactory(token),
-              NOT_YET
-            );
-          } else {
-            record = null;
-          }
-          this.records.set(token, record);
-        }
+        const record = this.findRecord(token);
         // If a record was found, get the instance for it and return it.
         if (record != null /* NOT null || undefined */) {
           return this.hydrate(token, record);
         }
       }
 
-      // Select the next injector based on the Self flag - if self is set, the next injector is
-      // the NullInjector, otherwise it's the parent.
-      const nextInjector = !(flags & InjectFlags.Self)
-        ? this.parent
-        : getNullInjector();
+      // Select the next injector based on the Self and Host flags - if self is set, or host is set
+      // and this injector is a host boundary, the next injector is the NullInjector, otherwise
+      // it's the parent.
+      const nextInjector =
+        flags & InjectFlags.Self || (flags & InjectFlags.Host && this.host)
+          ? getNullInjector()
+          : this.parent;
       // Set the notFoundValue based on the Optional flag - if optional is set and notFoundValue
       // is undefined, the value is null, otherwise it's the notFoundValue.
       notFoundValue =
         flags & InjectFlags.Optional && notFoundValue === THROW_IF_NOT_FOUND
           ? null
           : notFoundValue;
-      return nextInjector.get(token, notFoundValue);
+      // The Host flag applies to every injector up to the boundary.
+      return flags & InjectFlags.Host
+        ? nextInjector.get(token, notFoundValue, InjectFlags.Host)
+        : nextInjector.get(token, notFoundValue);
     } catch (e) {
       if (e.name === 'NullInjectorError') {
         const path: any[] = (e[NG_TEMP_TOKEN_PATH] =
@@ -288,11 +439,90 @@ export class R3Injector {
     }
   }
 
+  /**
+   * Retrieves an instance from the injector based on the provided token, waiting for every async
+   * provider in its dependency graph to be created first.
+   * @returns A promise of the instance if defined, otherwise of the `notFoundValue`.
+   */
+  getAsync<T>(
+    token: ProviderToken<T>,
+    notFoundValue: any = THROW_IF_NOT_FOUND,
+    flags: InjectFlags | InjectOptions = InjectFlags.Default
+  ): Promise<T> {
+    const deps =
+      convertToBitFlags(flags)! & InjectFlags.SkipSelf ? [] : [token];
+    return this.resolveAsync(() => this.get(token, notFoundValue, flags), deps);
+  }
+
   /** @internal */
   _resolveInjectorDefTypes() {
     this.injectorDefTypes.forEach((defType) => this.get(defType));
   }
 
+  /**
+   * Calls the `INJECTOR_INITIALIZER` functions provided by this injector, in declaration order.
+   *
+   * @internal
+   */
+  _runInjectorInitializers() {
+    const previousInjector = setCurrentInjector(this);
+    try {
+      const initializers: ReadonlyArray<() => void> = this.get(
+        INJECTOR_INITIALIZER,
+        EMPTY_ARRAY,
+        InjectFlags.Self
+      );
+      initializers.forEach((initializer, index) => {
+        try {
+          initializer();
+        } catch (e) {
+          if (typeof e !== 'object' || e === null) {
+            throw e;
+          }
+          // Report which initializer failed, followed by the tokens it was injecting, if any.
+          const path: any[] = (e[NG_TEMP_TOKEN_PATH] =
+            e[NG_TEMP_TOKEN_PATH] || []);
+          path.unshift(`${stringify(INJECTOR_INITIALIZER)}[${index}]`);
+          catchInjectorError(
+            e,
+            INJECTOR_INITIALIZER,
+            'R3InjectorError',
+            this.source
+          );
+        }
+      });
+    } finally {
+      setCurrentInjector(previousInjector);
+    }
+  }
+
+  /**
+   * Waits for every eager async provider of this injector to settle. A single failure is rethrown
+   * as is, several failures are reported together in an `AsyncProvidersError`.
+   *
+   * @internal
+   */
+  async _resolveAsyncProviders(): Promise<void> {
+    const pending: Promise<any>[] = [];
+    this.records.forEach((record, token) => {
+      if (record && record.asyncFactory !== undefined && record.eager) {
+        pending.push(this.hydrateAsync(token, record));
+      }
+    });
+    const results = await Promise.allSettled(pending);
+    const errors = results
+      .filter(
+        (result): result is PromiseRejectedResult =>
+          result.status === 'rejected'
+      )
+      .map((result) => result.reason);
+    if (errors.length === 1) {
+      throw errors[0];
+    } else if (errors.length > 1) {
+      throw new AsyncProvidersError(errors);
+    }
+  }
+
   toString() {
     const tokens = <string[]>[],
       records = this.records;
@@ -300,9 +530,66 @@ export class R3Injector {
     return `R3Injector[${tokens.join(', ')}]`;
   }
 
-  private assertNotDestroyed(): void {
+  /**
+   * Orders the hooks so that every value comes before the values it depends on. Values without a
+   * dependency between them are destroyed in reverse creation order.
+   */
+  private getDestroyOrder(): OnDestroy[] {
+    const order: OnDestroy[] = [];
+    const visited = new Set<any>();
+    const visit = (value: any) => {
+      if (visited.has(value)) {
+        return;
+      }
+      visited.add(value);
+      this.dependencies.get(value)?.forEach(visit);
+      if (this.onDestroyHooks.has(value)) {
+        order.push(value);
+      }
+    };
+    this.onDestroyHooks.forEach(visit);
+    return order.reverse();
+  }
+
+  /**
+   * Returns a function which calls `fn` as if it was called by the factory currently being called
+   * by this injector, if any, so that the values it requests are recorded as dependencies of the
+   * value being created. Used by lazy dependencies, which are resolved after their consumer.
+   *
+   * @internal
+   */
+  _captureDependent(): <T>(fn: () => T) => T {
+    const dependencies = this.creating[this.creating.length - 1];
+    if (dependencies === undefined) {
+      return (fn) => fn();
+    }
+    return (fn) => this.withDependencies(dependencies, fn);
+  }
+
+  /** Calls `fn`, recording the values it requests from this injector in `dependencies`. */
+  private withDependencies<T>(dependencies: any[], fn: () => T): T {
+    this.creating.push(dependencies);
+    try {
+      return fn();
+    } finally {
+      this.creating.pop();
+    }
+  }
+
+  private releaseReferences(): void {
+    this.records.clear();
+    this.onDestroyHooks.clear();
+    this.dependencies.clear();
+    this.injectorDefTypes.clear();
+  }
+
+  /** @internal */
+  assertNotDestroyed(): void {
     if (this._destroyed) {
-      throw new Error('Injector has already been destroyed.');
+      throw new RuntimeError(
+        RuntimeErrorCode.INJECTOR_ALREADY_DESTROYED,
+        'Injector has already been destroyed.'
+      );
     }
   }
 
@@ -315,6 +602,117 @@ export class R3Injector {
    * to be processed. This allows us to process providers of injector types after all imports of
    * an injector definition are processed. (following View Engine semantics: see FW-1349)
    */
+  private processInjectorType(
+    defOrWrappedDef: InjectorType<any> | InjectorTypeWithProviders<any>,
+    parents: InjectorType<any>[],
+    dedupStack: InjectorType<any>[]
+  ): defOrWrappedDef is InjectorTypeWithProviders<any> {
+    defOrWrappedDef = resolveForwardRef(defOrWrappedDef);
+    if (!defOrWrappedDef) return false;
+
+    // Either the defOrWrappedDef is an InjectorType (with injector def) or an
+    // InjectorDefTypeWithProviders (aka ModuleWithProviders). Detecting either is a megamorphic
+    // read, so care is taken to only do the read once.
+
+    // First attempt to read the injector def (`ɵinj`).
+    let def = getInjectorDef(defOrWrappedDef);
+
+    // If that's not present, then attempt to read ngModule from the InjectorDefTypeWithProviders.
+    const ngModule =
+      (def == null &&
+        (defOrWrappedDef as InjectorTypeWithProviders<any>).ngModule) ||
+      undefined;
+
+    // Determine the InjectorType. In the case where `defOrWrappedDef` is an `InjectorType`,
+    // then this is easy. In the case of an InjectorDefTypeWithProviders, then the definition type
+    // is the `ngModule`.
+    const defType: InjectorType<any> =
+      ngModule === undefined
+        ? (defOrWrappedDef as InjectorType<any>)
+        : ngModule;
+
+    // Check for circular dependencies.
+    if (parents.indexOf(defType) !== -1) {
+      const defName = stringify(defType);
+      const path = parents.concat(defType).map(stringify);
+      throwCyclicDependencyError(defName, path);
+    }
+
+    // Check for multiple imports of the same module
+    const isDuplicate = dedupStack.indexOf(defType) !== -1;
+
+    // Finally, if defOrWrappedType was an `InjectorDefTypeWithProviders`, then the actual
+    // `InjectorDef` is on its `ngModule`.
+    if (ngModule !== undefined) {
+      def = getInjectorDef(ngModule);
+    }
+
+    // If no definition was found, it might be from exports. Remove it.
+    if (def == null) {
+      return false;
+    }
+
+    // Add providers in the same way that @NgModule resolution did:
+
+    // First, include providers from any imports.
+    if (def.imports != null && !isDuplicate) {
+      // Before processing defType's imports, add it to the set of parents. This way, if it ends
+      // up deeply importing itself, this can be detected.
+      parents.push(defType);
+      // Add it to the set of dedups. This way we can detect multiple imports of the same module
+      dedupStack.push(defType);
+
+      let importTypesWithProviders:
+        | InjectorTypeWithProviders<any>[]
+        | undefined;
+      try {
+        deepForEach(def.imports, (imported) => {
+          if (this.processInjectorType(imported, parents, dedupStack)) {
+            if (importTypesWithProviders === undefined)
+              importTypesWithProviders = [];
+            // If the processed import is an injector type with providers, we store it in the
+            // list of import types with providers, so that we can process those afterwards.
+            importTypesWithProviders.push(imported);
+          }
+        });
+      } finally {
+        // Remove it from the parents set when finished.
+        parents.pop();
+      }
+
+      // Imports which are declared with providers (TypeWithProviders) need to be processed
+      // after all imported modules are processed. This is similar to how View Engine
+      // processes/merges module imports in the metadata resolver. See: FW-1349.
+      if (importTypesWithProviders !== undefined) {
+        for (let i = 0; i < importTypesWithProviders.length; i++) {
+          const { ngModule, providers } = importTypesWithProviders[i];
+          deepForEach(providers!, (provider) =>
+            this.processProvider(provider, ngModule, providers || EMPTY_ARRAY)
+          );
+        }
+      }
+    }
+    // Track the InjectorType and add a provider for it. It's important that this is done after the
+    // def's imports.
+    this.injectorDefTypes.add(defType);
+    const factory = getFactoryDef(defType) || (() => new defType());
+    this.records.set(defType, makeRecord(factory, NOT_YET));
+
+    // Next, include providers listed on the definition itself.
+    const defProviders = def.providers;
+    if (defProviders != null && !isDuplicate) {
+      const injectorType = defOrWrappedDef as InjectorType<any>;
+      deepForEach(defProviders, (provider) =>
+        this.processProvider(provider, injectorType, defProviders)
+      );
+    }
+
+    return (
+      ngModule !== undefined &&
+      (defOrWrappedDef as InjectorTypeWithProviders<any>).providers !==
+        undefined
+    );
+  }
 
   /**
    * Process a `SingleProvider` and add it.
@@ -360,23 +758,266 @@ export class R3Injector {
   }
 
   private hydrate<T>(token: ProviderToken<T>, record: Record<T>): T {
-    // if (ngDevMode && record.value === CIRCULAR) {
-    //   throwCyclicDependencyError(stringify(token));
-    // } else
-    if (record.value === NOT_YET) {
+    if (record.transient) {
+      return this.hydrateTransient(token, record);
+    }
+    if (record.value === CIRCULAR) {
+      this.throwHydratingCycle(token);
+    } else if (record.value === NOT_YET) {
+      if (record.asyncFactory !== undefined) {
+        throw new AsyncProviderNotReadyError(token, record, this);
+      }
       record.value = CIRCULAR;
-      record.value = record.factory!();
+      const dependencies: any[] = [];
+      this.hydrating.push(token);
+      this.creating.push(dependencies);
+      try {
+        record.value = record.factory!();
+      } catch (e) {
+        // Allow the token to be requested again instead of reporting it as circular.
+        record.value = NOT_YET;
+        throw e;
+      } finally {
+        this.hydrating.pop();
+        this.creating.pop();
+      }
+      this.setDependencies(record.value, dependencies);
     }
     if (
       typeof record.value === 'object' &&
       record.value &&
       hasOnDestroy(record.value)
     ) {
-      this.onDestroy.add(record.value);
+      this.onDestroyHooks.add(record.value);
     }
+    this.addDependency(record.value);
     return record.value as T;
   }
 
+  /**
+   * Creates a new value for a transient record. The value is never stored in the record, so
+   * circular dependencies are detected from the factories currently being called instead.
+   */
+  private hydrateTransient<T>(token: ProviderToken<T>, record: Record<T>): T {
+    if (this.hydrating.indexOf(token) !== -1) {
+      this.throwHydratingCycle(token);
+    }
+    const dependencies: any[] = [];
+    this.hydrating.push(token);
+    this.creating.push(dependencies);
+    let value: T;
+    try {
+      value = record.factory!();
+    } finally {
+      this.hydrating.pop();
+      this.creating.pop();
+    }
+    if (hasOnDestroy(value)) {
+      this.onDestroyHooks.add(value);
+      this.attemptTransients?.push(value);
+      this.setDependencies(value, dependencies);
+      this.addDependency(value);
+    } else {
+      // The value is not kept by the injector, the value injecting it depends on its dependencies.
+      dependencies.forEach((dependency) => this.addDependency(dependency));
+    }
+    return value;
+  }
+
+  /**
+   * Records the dependencies of a value created by this injector. The list is kept even if it is
+   * empty, as the lazy dependencies of the value are added to it later on.
+   */
+  private setDependencies(value: any, dependencies: any[]): void {
+    if (isReference(value)) {
+      this.dependencies.set(value, dependencies);
+    }
+  }
+
+  /** Records `value` as a dependency of the value whose factory is currently being called. */
+  private addDependency(value: any): void {
+    const dependencies = this.creating[this.creating.length - 1];
+    if (dependencies !== undefined && isReference(value)) {
+      dependencies.push(value);
+    }
+  }
+
+  private throwHydratingCycle(token: ProviderToken<any>): never {
+    const start = this.hydrating.indexOf(token);
+    const path = this.hydrating
+      .slice(start === -1 ? 0 : start)
+      .concat(token)
+      .map(stringify);
+    throwCyclicDependencyError(stringify(token), path);
+  }
+
+  private hydrateAsync<T>(
+    token: ProviderToken<T>,
+    record: Record<T>
+  ): Promise<T> {
+    if (record.value !== NOT_YET) {
+      return Promise.resolve(record.value as T);
+    }
+    if (record.pending === undefined) {
+      const dependencies: any[] = [];
+      record.pending = this.resolveAsync(
+        () => this.withDependencies(dependencies, record.asyncFactory!),
+        record.deps || EMPTY_ARRAY,
+        token,
+        record
+      ).then(
+        (value) => {
+          record.value = value;
+          record.pending = undefined;
+          this.setDependencies(value, dependencies);
+          if (hasOnDestroy(value)) {
+            this.onDestroyHooks.add(value);
+          }
+          return value;
+        },
+        (e) => {
+          record.pending = undefined;
+          throw e;
+        }
+      );
+    }
+    return record.pending;
+  }
+
+  /**
+   * Calls `fn` in the injection context of this injector, once the async providers among `deps`
+   * have been created. Every time `fn` still requests an async provider which has not been created
+   * yet, waits for that provider and calls `fn` again; the transient values created by the aborted
+   * call are destroyed.
+   *
+   * @param deps the dependencies `fn` is known to inject, in the format of a provider's `deps`
+   * @param token the async provider `fn` creates, if any
+   * @param record the record of that async provider
+   */
+  private async resolveAsync<T>(
+    fn: () => T | Promise<T>,
+    deps: readonly any[],
+    token?: ProviderToken<any>,
+    record?: Record<any>
+  ): Promise<T> {
+    await this.resolveAsyncDeps(deps, new Set(), token, record);
+    for (;;) {
+      this.assertNotDestroyed();
+      let result: T | Promise<T>;
+      let notReady: AsyncProviderNotReadyError | undefined;
+      const previousInjector = setCurrentInjector(this);
+      const previousTransients = this.attemptTransients;
+      const transients: OnDestroy[] = (this.attemptTransients = []);
+      try {
+        result = fn();
+      } catch (e) {
+        if (!(e instanceof AsyncProviderNotReadyError)) {
+          throw e;
+        }
+        notReady = e;
+      } finally {
+        setCurrentInjector(previousInjector);
+        this.attemptTransients = previousTransients;
+      }
+      if (notReady === undefined) {
+        previousTransients?.push(...transients);
+        return result!;
+      }
+      // The values of the aborted call are never handed out, so they are destroyed right away.
+      for (const value of transients) {
+        this.onDestroyHooks.delete(value);
+        value.ngOnDestroy();
+      }
+      await this.awaitAsyncProvider(
+        notReady.injector,
+        notReady.token,
+        notReady.record,
+        token,
+        record
+      );
+    }
+  }
+
+  /**
+   * Creates the async providers of this injector among `deps`, and among the `deps` of the
+   * providers in `deps` which have not been created yet.
+   */
+  private async resolveAsyncDeps(
+    deps: readonly any[],
+    visited: Set<Record<any>>,
+    token?: ProviderToken<any>,
+    record?: Record<any>
+  ): Promise<void> {
+    for (const dep of deps) {
+      const { token: depToken, flags } = getDependency(dep);
+      if (flags & (InjectFlags.SkipSelf | InjectFlags.Lazy)) {
+        continue;
+      }
+      const depRecord = this.findRecord(depToken);
+      if (!depRecord || depRecord.value !== NOT_YET || visited.has(depRecord)) {
+        continue;
+      }
+      visited.add(depRecord);
+      if (depRecord.asyncFactory !== undefined) {
+        await this.awaitAsyncProvider(this, depToken, depRecord, token, record);
+        continue;
+      }
+      const depDeps =
+        depRecord.deps ||
+        (depRecord.factory && getFactoryDeps(depRecord.factory));
+      if (depDeps !== undefined) {
+        await this.resolveAsyncDeps(depDeps, visited, token, record);
+      }
+    }
+  }
+
+  /**
+   * Waits for the async provider `awaitedToken` of `injector`, while `record` (if any) is marked
+   * as waiting for it to detect circular dependencies between async providers.
+   */
+  private async awaitAsyncProvider(
+    injector: R3Injector,
+    awaitedToken: ProviderToken<any>,
+    awaited: Record<any>,
+    token?: ProviderToken<any>,
+    record?: Record<any>
+  ): Promise<void> {
+    if (record) {
+      throwIfAwaitingCycle(token!, record, awaitedToken, awaited);
+      record.awaiting = [awaitedToken, awaited];
+    }
+    try {
+      await injector.hydrateAsync(awaitedToken, awaited);
+    } finally {
+      if (record) {
+        record.awaiting = undefined;
+      }
+    }
+  }
+
+  /**
+   * Looks up the record of `token` in this injector. A token without a record may still be scoped
+   * to this injector by its injectable def, in which case a record is created for it.
+   */
+  private findRecord<T>(token: ProviderToken<T>): Record<T> | null {
+    let record: Record<T> | undefined | null = this.records.get(token);
+    if (record === undefined) {
+      // No record, but maybe the token is scoped to this injector. Look for an injectable
+      // def with a scope matching this injector.
+      const def = couldBeInjectableType(token) && getInjectableDef(token);
+      if (def && this.injectableDefInScope(def)) {
+        // Found an injectable def and it's scoped to this injector. Pretend as if it was here
+        // all along.
+        record = makeRecord(injectableDefOrInjectorDefFactory(token), NOT_YET);
+        record.transient = def.lifetime === 'transient';
+      } else {
+        record = null;
+      }
+      this.records.set(token, record);
+    }
+    return record;
+  }
+
   private injectableDefInScope(def: ɵɵInjectableDeclaration<any>): boolean {
     if (!def.providedIn) {
       return false;
@@ -445,14 +1086,59 @@ function providerToRecord(
 ): Record<any> {
   if (isValueProvider(provider)) {
     return makeRecord(undefined, provider.useValue);
+  } else if (isAsyncFactoryProvider(provider)) {
+    const record = makeRecord(undefined, NOT_YET);
+    record.asyncFactory = () =>
+      provider.useAsyncFactory(...injectArgs(provider.deps || []));
+    record.eager = provider.eager !== false;
+    record.deps = provider.deps;
+    return record;
   } else {
     const factory: (() => any) | undefined = providerToFactory(
       provider,
       ngModuleType,
       providers
     );
-    return makeRecord(factory, NOT_YET);
+    const record = makeRecord(factory, NOT_YET);
+    record.transient = providerLifetime(provider) === 'transient';
+    record.deps = (provider as FactoryProvider | StaticClassProvider).deps;
+    return record;
+  }
+}
+
+/**
+ * Reads the lifetime of a provider. When the provider does not specify one, the lifetime declared
+ * by `@Injectable` applies to the providers which create the class through its own factory.
+ */
+function providerLifetime(provider: SingleProvider): ProviderLifetime {
+  if (isTypeProvider(provider)) {
+    return (
+      getInjectableDef(resolveForwardRef(provider))?.lifetime || 'singleton'
+    );
   }
+  const lifetime = (
+    provider as
+      | ClassProvider
+      | ConstructorProvider
+      | ExistingProvider
+      | FactoryProvider
+      | StaticClassProvider
+  ).lifetime;
+  if (lifetime !== undefined) {
+    return lifetime;
+  }
+  if (
+    isFactoryProvider(provider) ||
+    isExistingProvider(provider) ||
+    hasDeps(provider as ClassProvider)
+  ) {
+    return 'singleton';
+  }
+  const classRef = resolveForwardRef(
+    (provider as StaticClassProvider | ClassProvider).useClass ||
+      provider.provide
+  );
+  return getInjectableDef(classRef)?.lifetime || 'singleton';
 }
 
 /**
@@ -516,6 +1202,12 @@ function isValueProvider(value: SingleProvider): value is ValueProvider {
   return value !== null && typeof value == 'object' && USE_VALUE in value;
 }
 
+function isAsyncFactoryProvider(
+  value: SingleProvider
+): value is AsyncFactoryProvider {
+  return !!(value && (value as AsyncFactoryProvider).useAsyncFactory);
+}
+
 function isExistingProvider(value: SingleProvider): value is ExistingProvider {
   return !!(value && (value as ExistingProvider).useExisting);
 }
@@ -534,6 +1226,28 @@ function hasDeps(
   return !!(value as any).deps;
 }
 
+/** Whether `value` can be told apart from other values, to record its dependencies. */
+function isReference(value: any): boolean {
+  return (
+    value !== null && (typeof value === 'object' || typeof value === 'function')
+  );
+}
+
+function asyncDestroyHookError(service: OnDestroy): RuntimeError {
+  const hook =
+    service.constructor === Object
+      ? 'An onDestroy callback'
+      : `The ngOnDestroy hook of ${stringify(service.constructor)}`;
+  return new RuntimeError(
+    RuntimeErrorCode.ASYNC_DESTROY_HOOK,
+    `${hook} returned a promise, which destroy() cannot wait for. Use destroyAsync() instead.`
+  );
+}
+
+function isPromise(value: any): value is PromiseLike<unknown> {
+  return !!value && typeof value.then === 'function';
+}
+
 function hasOnDestroy(value: any): value is OnDestroy {
   return (
     value !== null &&
@@ -542,6 +1256,38 @@ function hasOnDestroy(value: any): value is OnDestroy {
   );
 }
 
+/**
+ * Throws if `record` waiting for the async provider `awaited` would never settle, because
+ * `awaited` is itself (transitively) waiting for `record`.
+ */
+function throwIfAwaitingCycle(
+  token: ProviderToken<any>,
+  record: Record<any>,
+  awaitedToken: ProviderToken<any>,
+  awaited: Record<any>
+): void {
+  const path = [token];
+  let current: [ProviderToken<any>, Record<any>] | undefined = [
+    awaitedToken,
+    awaited,
+  ];
+  while (current) {
+    path.push(current[0]);
+    if (current[1] === record) {
+      throwCyclicDependencyError(stringify(token), path.map(stringify));
+    }
+    current = current[1].awaiting;
+  }
+}
+
+function throwDestroyErrors(errors: any[]): void {
+  if (errors.length === 1) {
+    throw errors[0];
+  } else if (errors.length > 1) {
+    throw new InjectorDestroyError(errors);
+  }
+}
+
 function couldBeInjectableType(value: any): value is ProviderToken<any> {
   return (
     typeof value === 'function' ||
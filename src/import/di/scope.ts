@@ -8,11 +8,28 @@
 
 import { InjectionToken } from "./injection_token";
 
+/**
+ * Name of the scope of an injector. Besides the built-in `'root'` and `'platform'` scopes, any
+ * custom name (for example `'request'` or `'session'`) can be used.
+ *
+ * @publicApi
+ */
+export type InjectorScope = "root" | "platform" | (string & {});
+
 /**
  * An internal token whose presence in an injector indicates that the injector should treat itself
- * as a root scoped injector when processing requests for unknown tokens which may indicate
- * they are provided in the root scope.
+ * as a scoped injector when processing requests for unknown tokens which may indicate
+ * they are provided in its scope (for example the root scope).
  */
-export const INJECTOR_SCOPE = new InjectionToken<"root" | "platform" | null>(
+export const INJECTOR_SCOPE = new InjectionToken<InjectorScope | null>(
   "Set Injector scope."
 );
+
+/**
+ * A token whose presence (with the value `true`) in an injector marks it as a host boundary:
+ * lookups with the `Host` flag stop at this injector instead of going up to its parents.
+ *
+ * @see `Injector.create`
+ * @publicApi
+ */
+export const INJECTOR_HOST = new InjectionToken<boolean>("INJECTOR_HOST");
@@ -1,12 +1,23 @@
 export * from './decorator/injectable';
+export * from './decorator/injector_module';
 export * from './di/metadata';
 export * from './di/r3_injector';
 export * from './di/interface/defs';
 export * from './di/injector_compatibility';
 export * from './di/injection_token';
+export * from './di/forward_ref';
+export * from './di/initializer_token';
 export * from './di/null_injector';
 export * from './di/injector';
+export * from './di/destroy_ref';
+export * from './di/define_injectable';
+export * from './di/contextual';
+export * from './di/async_local_storage_context';
 export * from './di/interface/injector';
 export * from './di/scope';
 export * from './render3/instructions/di';
+export * from './render3/jit/partial';
+export * from './render3/interfaces/public_definitions';
 export * from './render3/di';
+export { RuntimeError } from './render3/error_code';
+export * from './render3/errors_di';
@@ -24,6 +24,9 @@ export interface OnDestroy {
   /**
    * A callback method that performs custom clean-up, invoked immediately
    * before a directive, pipe, or service instance is destroyed.
+   *
+   * A returned promise is awaited by `R3Injector.destroyAsync` before the dependencies of the
+   * instance are destroyed.
    */
-  ngOnDestroy(): void;
+  ngOnDestroy(): void | Promise<void>;
 }
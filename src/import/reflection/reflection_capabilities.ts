@@ -0,0 +1,120 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Type } from '../interface/type';
+import { PARAMETERS } from '../util/decorators';
+
+/*
+ * #########################
+ * Attention: These Regular expressions have to hold even if the code is minified!
+ * ##########################
+ */
+
+/**
+ * Regular expression that detects pass-through constructors for ES5 output. This Regex
+ * intends to capture the common delegation pattern emitted by TypeScript and Babel. Also
+ * it intends to capture the pattern where existing constructors have been downleveled from
+ * ES2015 to ES5 using TypeScript w/ downlevel iteration. e.g.
+ *
+ * ```
+ *   function MyClass() {
+ *     var _this = _super.apply(this, arguments) || this;
+ * ```
+ *
+ * downleveled to ES5 with `downlevelIteration` for TypeScript < 4.2:
+ * ```
+ *   function MyClass() {
+ *     var _this = _super.apply(this, __spread(arguments)) || this;
+ * ```
+ *
+ * or downleveled to ES5 with `downlevelIteration` for TypeScript >= 4.2:
+ * ```
+ *   function MyClass() {
+ *     var _this = _super.apply(this, __spreadArray([], __read(arguments))) || this;
+ * ```
+ *
+ * More details can be found in: https://github.com/angular/angular/issues/38453.
+ */
+const ES5_DELEGATE_CTOR =
+  /^function\s+\S+\(\)\s*[{\n]\s+\S+\.apply\(this,\s*(arguments|(?:[^()]+\(\[\],)?[^()]+\(arguments\))\)/;
+/** Regular expression that detects ES2015 classes which extend from other classes. */
+const ES2015_INHERITED_CLASS = /^class\s+[A-Za-z\d$_]*\s*extends\s+[^{]+{/;
+/**
+ * Regular expression that detects ES2015 classes which extend from other classes and
+ * have an explicit constructor defined.
+ */
+const ES2015_INHERITED_CLASS_WITH_CTOR =
+  /^class\s+[A-Za-z\d$_]*\s*extends\s+[^{]+{[\s\S]*constructor\s*\(/;
+/**
+ * Regular expression that detects ES2015 classes which extend from other classes
+ * and inherit a constructor.
+ */
+const ES2015_INHERITED_CLASS_WITH_DELEGATE_CTOR =
+  /^class\s+[A-Za-z\d$_]*\s*extends\s+[^{]+{[\s\S]*constructor\s*\(\)\s*{[^}]*super\(\.\.\.arguments\)/;
+
+/**
+ * Determine whether a stringified type is a class which delegates its constructor
+ * to its parent.
+ *
+ * This is not trivial since compiled code can actually contain a constructor function
+ * even if the original source code did not. For instance, when the child class contains
+ * an initialized instance property.
+ */
+export function isDelegateCtor(typeStr: string): boolean {
+  return (
+    ES5_DELEGATE_CTOR.test(typeStr) ||
+    ES2015_INHERITED_CLASS_WITH_DELEGATE_CTOR.test(typeStr) ||
+    (ES2015_INHERITED_CLASS.test(typeStr) &&
+      !ES2015_INHERITED_CLASS_WITH_CTOR.test(typeStr))
+  );
+}
+
+/**
+ * Reads the constructor parameters of `type` from the metadata recorded by the parameter
+ * decorators (`@Inject`, `@Optional`, ...) and from `design:paramtypes`, which TypeScript emits
+ * when `emitDecoratorMetadata` is enabled and a `Reflect.getOwnMetadata` polyfill is loaded.
+ *
+ * Every parameter is described by an array holding its design type (if it is known) followed by
+ * its decorator instances, the same shape `injectArgs` accepts for `deps`. Returns `null` when
+ * the class inherits its constructor, in which case the factory of the parent should be used.
+ */
+export function reflectParameters(type: Type<any>): any[][] | null {
+  if (isDelegateCtor(type.toString())) {
+    return null;
+  }
+
+  const paramAnnotations: any[] | undefined = type.hasOwnProperty(PARAMETERS)
+    ? (type as any)[PARAMETERS]
+    : undefined;
+  const reflect = (typeof Reflect !== 'undefined' ? Reflect : undefined) as any;
+  const paramTypes: any[] | undefined =
+    reflect && typeof reflect.getOwnMetadata === 'function'
+      ? reflect.getOwnMetadata('design:paramtypes', type)
+      : undefined;
+
+  if (!paramTypes && !paramAnnotations) {
+    // If a class has no decorators, at least create metadata based on function.length.
+    return new Array(type.length).fill(null).map(() => []);
+  }
+
+  const length = Math.max(
+    paramTypes ? paramTypes.length : 0,
+    paramAnnotations ? paramAnnotations.length : 0,
+    type.length
+  );
+  const result: any[][] = [];
+  for (let i = 0; i < length; i++) {
+    // `Object` is emitted for interfaces and other types without a runtime value.
+    const paramType = paramTypes && paramTypes[i];
+    result[i] = paramType && paramType !== Object ? [paramType] : [];
+    if (paramAnnotations && paramAnnotations[i] != null) {
+      result[i] = result[i].concat(paramAnnotations[i]);
+    }
+  }
+  return result;
+}
@@ -10,7 +10,7 @@ import { isForwardRef, resolveForwardRef } from '../di/forward_ref';
 import { Type } from '../interface/type';
 import { noSideEffects } from '../util/closure';
 import { getFactoryDef } from './definition_factory';
-import { NG_FACTORY_DEF } from './fields';
+import { NG_FACTORY_DEF, NG_FACTORY_DEPS } from './fields';
 
 /**
  * @codeGenApi
@@ -49,6 +49,31 @@ export function ɵɵgetInheritedFactory<T>(
   });
 }
 
+/**
+ * Attaches to `factory` the dependencies it injects, in the format of a provider's `deps`. The
+ * injector creates the async providers among them before calling the factory, instead of calling
+ * it again once they are created.
+ *
+ * `deps` is a function, as the tokens may be declared after the factory.
+ *
+ * @codeGenApi
+ */
+export function ɵɵfactoryDeps<F extends Function>(
+  factory: F,
+  deps: () => any[]
+): F {
+  (factory as any)[NG_FACTORY_DEPS] = deps;
+  return factory;
+}
+
+/**
+ * Reads the dependencies attached to `factory` by `ɵɵfactoryDeps`, if any.
+ */
+export function getFactoryDeps(factory: Function): any[] | undefined {
+  const deps: (() => any[]) | undefined = (factory as any)[NG_FACTORY_DEPS];
+  return deps && deps();
+}
+
 function getFactoryOf<T>(
   type: Type<any>
 ): ((type?: Type<T>) => T | null) | null {
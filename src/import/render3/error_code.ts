@@ -19,6 +19,11 @@ export const enum RuntimeErrorCode {
   // Dependency Injection Errors
   CYCLIC_DI_DEPENDENCY = '200',
   PROVIDER_NOT_FOUND = '201',
+  INJECTOR_ALREADY_DESTROYED = '205',
+  INJECTOR_DESTROY_FAILED = '206',
+  ASYNC_DESTROY_HOOK = '207',
+  ASYNC_PROVIDER_NOT_READY = '210',
+  ASYNC_PROVIDERS_FAILED = '211',
 
   // Template Errors
   MULTIPLE_COMPONENTS_MATCH = '300',
@@ -8,6 +8,52 @@
 import { RuntimeError, RuntimeErrorCode } from './error_code';
 import { stringifyForError } from './util/stringify_utils';
 
+/** Called when providers inject each other (creating a circular dependency) */
+export function throwCyclicDependencyError(
+  token: string,
+  path?: string[]
+): never {
+  const depPath = path ? `. Dependency path: ${path.join(' -> ')}` : '';
+  throw new RuntimeError(
+    RuntimeErrorCode.CYCLIC_DI_DEPENDENCY,
+    `Circular dependency in DI detected for ${token}${depPath}`
+  );
+}
+
+/**
+ * Error thrown when more than one `ngOnDestroy` hook fails while an injector is destroyed. Every
+ * failure is kept in `errors`, in the order in which the hooks were called.
+ */
+export class InjectorDestroyError extends RuntimeError {
+  constructor(readonly errors: any[]) {
+    super(
+      RuntimeErrorCode.INJECTOR_DESTROY_FAILED,
+      `${errors.length} errors occurred while destroying the injector:\n` +
+        formatErrorList(errors)
+    );
+  }
+}
+
+/**
+ * Error thrown by `Injector.createAsync` when more than one eager async provider fails. Every
+ * failure is kept in `errors`, in the order in which the providers were declared.
+ */
+export class AsyncProvidersError extends RuntimeError {
+  constructor(readonly errors: any[]) {
+    super(
+      RuntimeErrorCode.ASYNC_PROVIDERS_FAILED,
+      `${errors.length} async providers failed while creating the injector:\n` +
+        formatErrorList(errors)
+    );
+  }
+}
+
+function formatErrorList(errors: any[]): string {
+  return errors
+    .map((error, i) => `  ${i + 1}) ${(error && error.message) || error}`)
+    .join('\n');
+}
+
 /** Throws an error when a token is not found in DI. */
 export function throwProviderNotFoundError(
   token: any,
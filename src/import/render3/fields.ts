@@ -11,3 +11,7 @@ import { getClosureSafeProperty } from '../util/property';
 export const NG_FACTORY_DEF = getClosureSafeProperty({
   ɵfac: getClosureSafeProperty,
 });
+
+export const NG_FACTORY_DEPS = getClosureSafeProperty({
+  ɵdeps: getClosureSafeProperty,
+});
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { FactoryFn } from '../definition_factory';
+
+/**
+ * Type of the `ɵfac` field which the compiler adds to an `@Injectable` class. It is only used in
+ * the emitted `.d.ts` files, where `CtorDependencies` describes the flags of each constructor
+ * parameter (`null` for a parameter without flags), or is `never` when the dependencies are
+ * inherited or invalid.
+ *
+ * @codeGenApi
+ */
+export type ɵɵFactoryDeclaration<
+  T,
+  CtorDependencies extends CtorDependency[]
+> = FactoryFn<T>;
+
+/**
+ * An object literal of this type is used to represent the metadata of a constructor dependency.
+ * The type itself is never referred to from generated code.
+ *
+ * @publicApi
+ */
+export type CtorDependency = {
+  /**
+   * If an `@Attribute` decorator is used, this represents the injected attribute's name. If the
+   * attribute name is a dynamic expression instead of a string literal, this will be the unknown
+   * type.
+   */
+  attribute?: string | unknown;
+
+  /**
+   * If `@Inject` is used, this is the type query of the injected token, or the unknown type if the
+   * token cannot be referenced from the declaration file.
+   */
+  token?: unknown;
+
+  /**
+   * If `@Optional()` is used, this key is set to true.
+   */
+  optional?: true;
+
+  /**
+   * If `@Host` is used, this key is set to true.
+   */
+  host?: true;
+
+  /**
+   * If `@Self` is used, this key is set to true.
+   */
+  self?: true;
+
+  /**
+   * If `@SkipSelf` is used, this key is set to true.
+   */
+  skipSelf?: true;
+
+  /**
+   * If `@Lazy` is used, this key is set to true.
+   */
+  lazy?: true;
+} | null;
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import type { Injectable } from '../../decorator/injectable';
+import { resolveForwardRef } from '../../di/forward_ref';
+import {
+  getInjectFlag,
+  injectArgs,
+  USE_VALUE,
+  ɵɵinject,
+} from '../../di/injector_compatibility';
+import { NG_PROV_DEF, ɵɵdefineInjectable } from '../../di/interface/defs';
+import { DecoratorFlags, InjectFlags } from '../../di/interface/injector';
+import { Type } from '../../interface/type';
+import { reflectParameters } from '../../reflection/reflection_capabilities';
+import { stringify } from '../../util/stringify';
+import { ɵɵfactoryDeps, ɵɵgetInheritedFactory } from '../di';
+import { NG_FACTORY_DEF } from '../fields';
+
+/**
+ * Compile an Angular injectable according to its `Injectable` metadata, and patch the resulting
+ * `ɵfac` and `ɵprov` onto the type, the same way the transformer emits them as static fields.
+ *
+ * This is the runtime counterpart of the transformer, used when `@Injectable` is evaluated as a
+ * real decorator instead of being compiled away.
+ */
+export function compileInjectable(type: Type<any>, meta?: Injectable): void {
+  meta = meta || {};
+  if (!type.hasOwnProperty(NG_FACTORY_DEF)) {
+    (type as any)[NG_FACTORY_DEF] = compileFactory(type, meta);
+  }
+  if (!type.hasOwnProperty(NG_PROV_DEF)) {
+    (type as any)[NG_PROV_DEF] = ɵɵdefineInjectable({
+      token: type,
+      factory: compileProviderFactory(type, meta),
+      providedIn: meta.providedIn,
+      lifetime: meta.lifetime,
+    });
+  }
+}
+
+/**
+ * Creates the `ɵfac` of `type`, which calls its constructor with the explicit `deps` of the
+ * metadata (if the metadata does not configure another provider) or with the reflected
+ * constructor parameters.
+ */
+function compileFactory(type: Type<any>, meta: any): (t?: Type<any>) => any {
+  const ownDeps = meta.deps !== undefined && !isProviderMeta(meta);
+  const deps = ownDeps ? meta.deps : reflectParameters(type);
+  if (deps === null) {
+    let baseFactory: ((t: Type<any>) => any) | undefined;
+    return function (t?: Type<any>) {
+      return (baseFactory || (baseFactory = ɵɵgetInheritedFactory(type)))(
+        t || type
+      );
+    };
+  }
+  if ((deps as any[]).some((dep) => getDependencyToken(dep) == null)) {
+    const message = cannotResolveParameters(type, deps);
+    return function () {
+      throw new Error(message);
+    };
+  }
+  return ɵɵfactoryDeps(
+    function (t?: Type<any>) {
+      return new (t || type)(...injectArgs(deps));
+    },
+    () => deps
+  );
+}
+
+/**
+ * Creates the factory of the `ɵprov` of `type`, following the provider that is configured in the
+ * metadata. Mirrors `compileInjectable` of the compiler.
+ */
+function compileProviderFactory(type: Type<any>, meta: any): (t?: any) => any {
+  if (meta.useClass !== undefined) {
+    // A class is either instantiated with the given deps, or through its own factory.
+    if (meta.deps !== undefined) {
+      return () =>
+        new (resolveForwardRef(meta.useClass))(...injectArgs(meta.deps));
+    }
+    if (meta.useClass === type) {
+      return type[NG_FACTORY_DEF];
+    }
+    return (t?: Type<any>) =>
+      resolveForwardRef(meta.useClass)[NG_FACTORY_DEF](t);
+  }
+  if (meta.useFactory !== undefined) {
+    if (meta.deps !== undefined) {
+      return () => meta.useFactory(...injectArgs(meta.deps));
+    }
+    return () => meta.useFactory();
+  }
+  if (USE_VALUE in meta) {
+    return (t?: Type<any>) => (t ? new t() : meta.useValue);
+  }
+  if (meta.useExisting !== undefined) {
+    return (t?: Type<any>) =>
+      t ? new t() : ɵɵinject(resolveForwardRef(meta.useExisting));
+  }
+  return (t?: Type<any>) => type[NG_FACTORY_DEF](t);
+}
+
+function isProviderMeta(meta: any): boolean {
+  return (
+    meta.useClass !== undefined ||
+    meta.useFactory !== undefined ||
+    meta.useExisting !== undefined ||
+    USE_VALUE in meta
+  );
+}
+
+/**
+ * Reads the token that a `deps` entry injects, the same way `injectArgs` does. A lazy dependency
+ * is typed as a function, so its design type does not name the token to resolve.
+ */
+function getDependencyToken(dep: any): any {
+  dep = resolveForwardRef(dep);
+  if (!Array.isArray(dep)) {
+    return dep;
+  }
+  let token: any = undefined;
+  let lazy = false;
+  for (const meta of dep) {
+    const flag = getInjectFlag(meta);
+    if (flag === DecoratorFlags.Inject) {
+      return meta.token;
+    } else if (typeof flag === 'number') {
+      lazy = lazy || (flag & InjectFlags.Lazy) !== 0;
+    } else {
+      token = meta;
+    }
+  }
+  return lazy && token === Function ? undefined : token;
+}
+
+function cannotResolveParameters(type: Type<any>, deps: any[]): string {
+  const params = deps.map((dep) => {
+    const token = getDependencyToken(dep);
+    return token == null ? '?' : stringify(token);
+  });
+  return (
+    `Can't resolve all parameters for ${stringify(type)}: (${params.join(
+      ', '
+    )}). ` +
+    `Make sure that all the parameters are decorated with @Inject or have valid type ` +
+    `annotations (with "emitDecoratorMetadata" enabled), or pass \`deps\` to @Injectable.`
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { resolveForwardRef } from '../../di/forward_ref';
+import { ɵɵinject } from '../../di/injector_compatibility';
+import { ɵɵdefineInjectable, ɵɵdefineInjector } from '../../di/interface/defs';
+import { InjectFlags } from '../../di/interface/injector';
+import { ProviderLifetime } from '../../di/interface/provider';
+import { Type } from '../../interface/type';
+import { ɵɵfactoryDeps, ɵɵgetInheritedFactory } from '../di';
+import { NG_FACTORY_DEF } from '../fields';
+import { ɵɵinvalidFactory } from '../instructions/di';
+
+/** A dependency as it is emitted in a partial declaration. */
+export interface R3DeclareDependencyMetadataFacade {
+  token: unknown;
+  attribute?: boolean;
+  host?: boolean;
+  optional?: boolean;
+  self?: boolean;
+  skipSelf?: boolean;
+  lazy?: boolean;
+}
+
+/** The argument of `ɵɵngDeclareFactory`. */
+export interface R3DeclareFactoryFacade {
+  minVersion?: string;
+  version: string;
+  ngImport: unknown;
+  type: Type<any>;
+  deps: R3DeclareDependencyMetadataFacade[] | 'invalid' | null;
+  target: number;
+}
+
+/** The argument of `ɵɵngDeclareInjectable`. */
+export interface R3DeclareInjectableFacade {
+  minVersion?: string;
+  version: string;
+  ngImport: unknown;
+  type: Type<any>;
+  providedIn?: any;
+  useClass?: unknown;
+  useFactory?: (...args: any[]) => unknown;
+  useExisting?: unknown;
+  useValue?: unknown;
+  deps?: R3DeclareDependencyMetadataFacade[];
+  lifetime?: ProviderLifetime;
+}
+
+/** The argument of `ɵɵngDeclareInjector`. */
+export interface R3DeclareInjectorFacade {
+  minVersion?: string;
+  version: string;
+  ngImport: unknown;
+  type: Type<any>;
+  providers?: any[];
+  imports?: any[];
+}
+
+/**
+ * Creates the `ɵfac` of a class from its partial declaration. Normally the linker replaces the
+ * call with the full definition, this is the fallback when the code runs without being linked.
+ *
+ * @codeGenApi
+ */
+export function ɵɵngDeclareFactory(
+  decl: R3DeclareFactoryFacade
+): (t?: Type<any>) => any {
+  const type = decl.type;
+  if (decl.deps === null) {
+    let baseFactory: ((t: Type<any>) => any) | undefined;
+    return function (t?: Type<any>) {
+      return (baseFactory || (baseFactory = ɵɵgetInheritedFactory(type)))(
+        t || type
+      );
+    };
+  }
+  if (decl.deps === 'invalid') {
+    return () => ɵɵinvalidFactory();
+  }
+  const deps = decl.deps;
+  return ɵɵfactoryDeps(
+    function (t?: Type<any>) {
+      return new (t || type)(...injectDependencies(deps));
+    },
+    () =>
+      deps
+        .filter((dep) => !dep.attribute && !dep.skipSelf && !dep.lazy)
+        .map((dep) => dep.token)
+  );
+}
+
+/**
+ * Creates the `ɵprov` of a class from its partial declaration. Normally the linker replaces the
+ * call with the full definition, this is the fallback when the code runs without being linked.
+ *
+ * @codeGenApi
+ */
+export function ɵɵngDeclareInjectable(
+  decl: R3DeclareInjectableFacade
+): unknown {
+  return ɵɵdefineInjectable({
+    token: decl.type,
+    providedIn: decl.providedIn,
+    lifetime: decl.lifetime,
+    factory: createProviderFactory(decl),
+  });
+}
+
+/**
+ * Creates the `ɵinj` of an `@InjectorModule` class from its partial declaration. Normally the
+ * linker replaces the call with the full definition, this is the fallback when the code runs
+ * without being linked.
+ *
+ * @codeGenApi
+ */
+export function ɵɵngDeclareInjector(decl: R3DeclareInjectorFacade): unknown {
+  return ɵɵdefineInjector({
+    providers: decl.providers,
+    imports: decl.imports,
+  });
+}
+
+/** Mirrors `compileInjectable` of the compiler, see `compileProviderFactory` of the JIT. */
+function createProviderFactory(
+  decl: R3DeclareInjectableFacade
+): (t?: Type<any>) => any {
+  const type: any = decl.type;
+  if (decl.useClass !== undefined) {
+    if (decl.deps !== undefined) {
+      const deps = decl.deps;
+      return () =>
+        new (resolveForwardRef(decl.useClass as Type<any>))(
+          ...injectDependencies(deps)
+        );
+    }
+    return (t?: Type<any>) =>
+      (resolveForwardRef(decl.useClass) as any)[NG_FACTORY_DEF](t);
+  }
+  if (decl.useFactory !== undefined) {
+    const useFactory = decl.useFactory;
+    const deps = decl.deps || [];
+    return () => useFactory(...injectDependencies(deps));
+  }
+  if ('useValue' in decl) {
+    return (t?: Type<any>) => (t ? new t() : resolveForwardRef(decl.useValue));
+  }
+  if (decl.useExisting !== undefined) {
+    return (t?: Type<any>) =>
+      t ? new t() : ɵɵinject(resolveForwardRef(decl.useExisting) as any);
+  }
+  return (t?: Type<any>) => type[NG_FACTORY_DEF](t);
+}
+
+function injectDependencies(deps: R3DeclareDependencyMetadataFacade[]): any[] {
+  return deps.map((dep) => {
+    let flags = InjectFlags.Default;
+    if (dep.host) {
+      flags |= InjectFlags.Host;
+    }
+    if (dep.self) {
+      flags |= InjectFlags.Self;
+    }
+    if (dep.skipSelf) {
+      flags |= InjectFlags.SkipSelf;
+    }
+    if (dep.optional) {
+      flags |= InjectFlags.Optional;
+    }
+    if (dep.lazy) {
+      flags |= InjectFlags.Lazy;
+    }
+    return ɵɵinject(dep.token as any, flags);
+  });
+}
@@ -27,6 +27,11 @@ export interface TypeDecorator {
    */
   <T extends Type<any>>(type: T): T;
 
+  /**
+   * Invoke as a TC39 standard class decorator.
+   */
+  <T extends Type<any>>(type: T, context: StandardDecoratorContext): T;
+
   // Make TypeDecorator assignable to built-in ParameterDecorator type.
   // ParameterDecorator is declared in lib.d.ts as a `declare type`
   // so we cannot declare this interface as a subtype.
@@ -38,6 +43,17 @@ export interface TypeDecorator {
   ): void;
 }
 
+/**
+ * The part of the context object that TC39 standard decorators receive as the second argument.
+ * Declared here because `DecoratorContext` is only part of the lib of TypeScript 5.
+ */
+export interface StandardDecoratorContext {
+  kind: string;
+  name: string | symbol | undefined;
+}
+
+export const PARAMETERS = '__parameters__';
+
 function makeMetadataCtor(props?: (...args: any[]) => any): any {
   return function ctor(this: any, ...args: any[]) {
     if (props) {
@@ -49,6 +65,52 @@ function makeMetadataCtor(props?: (...args: any[]) => any): any {
   };
 }
 
+export function makeDecorator<T>(
+  name: string,
+  props?: (...args: any[]) => any,
+  typeFn?: (type: Type<T>, ...args: any[]) => void
+): {
+  new (...args: any[]): any;
+  (...args: any[]): any;
+  (...args: any[]): (cls: any) => any;
+} {
+  return noSideEffects(() => {
+    const metaCtor = makeMetadataCtor(props);
+
+    function DecoratorFactory(
+      this: unknown | typeof DecoratorFactory,
+      ...args: any[]
+    ): (cls: Type<T>) => any {
+      if (this instanceof DecoratorFactory) {
+        metaCtor.apply(this, args);
+        return this as typeof DecoratorFactory;
+      }
+
+      return function TypeDecorator(
+        cls: Type<T>,
+        context?: StandardDecoratorContext
+      ) {
+        // Experimental decorators only pass the class, standard decorators also pass a context
+        // which tells what has been decorated.
+        if (
+          typeof context === 'object' &&
+          context !== null &&
+          context.kind !== 'class'
+        ) {
+          throw new Error(
+            `@${name}() can only decorate a class, but was applied to a ${context.kind}.`
+          );
+        }
+        if (typeFn) typeFn(cls, ...args);
+        return cls;
+      };
+    }
+
+    DecoratorFactory.prototype.ngMetadataName = name;
+    return DecoratorFactory as any;
+  });
+}
+
 export function makeParamDecorator(
   name: string,
   props?: (...args: any[]) => any
@@ -63,8 +125,28 @@ export function makeParamDecorator(
         metaCtor.apply(this, args);
         return this;
       }
+      const annotationInstance = new (ParamDecoratorFactory as any)(...args);
+      return ParamDecorator;
+
+      function ParamDecorator(cls: any, unusedKey: any, index: number): any {
+        // Use of Object.defineProperty is important since it creates non-enumerable property which
+        // prevents the property is copied during subclassing.
+        const parameters = cls.hasOwnProperty(PARAMETERS)
+          ? cls[PARAMETERS]
+          : Object.defineProperty(cls, PARAMETERS, { value: [] })[PARAMETERS];
+
+        // there might be gaps if some in between parameters do not have annotations.
+        // we pad with nulls.
+        while (parameters.length <= index) {
+          parameters.push(null);
+        }
+
+        (parameters[index] = parameters[index] || []).push(annotationInstance);
+        return cls;
+      }
     }
 
+    ParamDecoratorFactory.prototype.ngMetadataName = name;
     return ParamDecoratorFactory;
   });
 }
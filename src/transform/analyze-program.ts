@@ -0,0 +1,139 @@
+import ts from 'typescript';
+import {
+  Expression,
+  ExternalExpr,
+  LiteralExpr,
+  R3DependencyMetadata,
+  ReadPropExpr,
+  WrappedNodeExpr,
+} from './compiler/index';
+import {
+  InjectableDecoratorHandler,
+  InjectableHandlerData,
+} from './compiler-cli/src/ngtsc/annotations/src/injectable';
+import {
+  InjectableTransformerFactory,
+  InjectableTransformerFactoryOptions,
+} from './injectable-transform';
+
+export interface InjectableDependency {
+  /** The source of the token of the dependency, `null` if it cannot be resolved. */
+  token: string | null;
+  /** The module the token is imported from, if it comes from another module. */
+  moduleName: string | null;
+  optional: boolean;
+  host: boolean;
+  self: boolean;
+  skipSelf: boolean;
+  lazy: boolean;
+}
+export interface InjectableClassMetadata {
+  name: string;
+  node: ts.ClassDeclaration;
+  /**
+   * The value of `providedIn`: the content of a string literal, the source of any other
+   * expression, or `null` when it is not set.
+   */
+  providedIn: string | null;
+  /**
+   * The constructor dependencies, `null` when the constructor is inherited from the base class
+   * and `'invalid'` when some of them cannot be resolved.
+   */
+  deps: InjectableDependency[] | 'invalid' | null;
+  /** The position of the class name, with 0-based line and character. */
+  location: { fileName: string; line: number; character: number };
+}
+export interface ProgramAnalysis {
+  injectables: InjectableClassMetadata[];
+  diagnostics: ts.Diagnostic[];
+}
+
+/**
+ * Runs the same analysis as the transformer over every source file of `program` without
+ * emitting, and returns the metadata of the `@Injectable` classes.
+ */
+export function analyzeProgram(
+  program: ts.Program,
+  options?: InjectableTransformerFactoryOptions
+): ProgramAnalysis {
+  let factory = new InjectableTransformerFactory(program, options);
+  let injectables: InjectableClassMetadata[] = [];
+  let diagnostics: ts.Diagnostic[] = [];
+  for (const sf of program.getSourceFiles()) {
+    if (sf.isDeclarationFile) {
+      continue;
+    }
+    for (const item of factory.analyzeSourceFile(sf, diagnostics)) {
+      if (!(item.handler instanceof InjectableDecoratorHandler)) {
+        continue;
+      }
+      let analysis = item.analysis as InjectableHandlerData;
+      let position = sf.getLineAndCharacterOfPosition(
+        item.node.name.getStart()
+      );
+      injectables.push({
+        name: item.node.name.text,
+        node: item.node,
+        providedIn: describeProvidedIn(analysis.meta.providedIn.expression),
+        deps: Array.isArray(analysis.ctorDeps)
+          ? analysis.ctorDeps.map((dep) => toInjectableDependency(dep))
+          : analysis.ctorDeps,
+        location: {
+          fileName: sf.fileName,
+          line: position.line,
+          character: position.character,
+        },
+      });
+    }
+  }
+  return { injectables, diagnostics };
+}
+
+function toInjectableDependency(
+  dep: R3DependencyMetadata
+): InjectableDependency {
+  return {
+    token: dep.token === null ? null : describeExpression(dep.token),
+    moduleName: dep.token === null ? null : getModuleName(dep.token),
+    optional: dep.optional,
+    host: dep.host,
+    self: dep.self,
+    skipSelf: dep.skipSelf,
+    lazy: dep.lazy,
+  };
+}
+
+function describeProvidedIn(expression: Expression): string | null {
+  if (expression instanceof LiteralExpr) {
+    return expression.value == null ? null : String(expression.value);
+  }
+  if (
+    expression instanceof WrappedNodeExpr &&
+    ts.isStringLiteralLike(expression.node)
+  ) {
+    return expression.node.text;
+  }
+  return describeExpression(expression);
+}
+
+function describeExpression(expression: Expression): string {
+  if (expression instanceof WrappedNodeExpr) {
+    return ts.getOriginalNode(expression.node as ts.Node).getText();
+  } else if (expression instanceof ExternalExpr) {
+    return expression.value.name!;
+  } else if (expression instanceof ReadPropExpr) {
+    return `${describeExpression(expression.receiver)}.${expression.name}`;
+  } else if (expression instanceof LiteralExpr) {
+    return JSON.stringify(expression.value);
+  }
+  return '?';
+}
+
+function getModuleName(expression: Expression): string | null {
+  if (expression instanceof ExternalExpr) {
+    return expression.value.moduleName;
+  } else if (expression instanceof ReadPropExpr) {
+    return getModuleName(expression.receiver);
+  }
+  return null;
+}
@@ -7,6 +7,7 @@
  */
 
 import {
+  compileDeclareFactoryFunction,
   compileFactoryFunction,
   R3FactoryMetadata,
 } from "../../../../../compiler";
@@ -26,3 +27,15 @@ export function compileNgFactoryDefField(
     type: res.type,
   };
 }
+
+export function compileDeclareFactory(
+  metadata: R3FactoryMetadata
+): CompileResult {
+  const res = compileDeclareFactoryFunction(metadata);
+  return {
+    name: "ɵfac",
+    initializer: res.expression,
+    statements: res.statements,
+    type: res.type,
+  };
+}
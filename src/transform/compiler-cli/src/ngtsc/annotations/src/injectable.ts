@@ -7,21 +7,39 @@
  */
 
 import {
+  compileDeclareInjectableFromMetadata,
   compileInjectable,
   createR3ProviderExpression,
+  expressionType,
   FactoryTarget,
+  literal,
   LiteralExpr,
   R3CompiledExpression,
   R3DependencyMetadata,
   R3InjectableMetadata,
   R3ProviderExpression,
+  Type,
   WrappedNodeExpr,
 } from '../../../../../compiler';
 import * as ts from 'typescript';
 
-import { ErrorCode, FatalDiagnosticError } from '../../diagnostics';
+import {
+  ErrorCode,
+  FatalDiagnosticError,
+  makeDiagnostic,
+  makeRelatedInformation,
+} from '../../diagnostics';
+import {
+  InjectableDependencyMeta,
+  MetadataReader,
+  MetadataRegistry,
+  resolveDeclaration,
+  resolveTypeValueReference,
+} from '../../metadata';
 import {
   ClassDeclaration,
+  CORE_MODULE,
+  CtorParameter,
   Decorator,
   ReflectionHost,
   reflectObjectLiteral,
@@ -31,9 +49,14 @@ import {
   CompileResult,
   DecoratorHandler,
   DetectResult,
+  ResolveResult,
 } from '../../transform';
 
-import { CompileFactoryFn, compileNgFactoryDefField } from './factory';
+import {
+  CompileFactoryFn,
+  compileDeclareFactory,
+  compileNgFactoryDefField,
+} from './factory';
 import {
   findAngularDecorator,
   getConstructorDependencies,
@@ -45,7 +68,7 @@ import {
   wrapTypeReference,
 } from './util';
 
-interface InjectableHandlerData {
+export interface InjectableHandlerData {
   meta: R3InjectableMetadata;
   // classMetadata: R3ClassMetadata | null;
   ctorDeps: R3DependencyMetadata[] | 'invalid' | null;
@@ -62,6 +85,15 @@ export class InjectableDecoratorHandler
     private isCore: boolean,
     private strictCtorDeps: boolean,
 
+    /**
+     * Where the metadata of the analyzed injectables is registered, where the metadata of their
+     * dependencies is read from, and the type checker that is used to resolve the tokens of the
+     * dependencies.
+     */
+    private metaRegistry: MetadataRegistry | null = null,
+    private metaReader: MetadataReader | null = null,
+    private checker: ts.TypeChecker | null = null,
+
     /**
      * What to do if the injectable already contains a ɵprov property.
      *
@@ -117,6 +149,148 @@ export class InjectableDecoratorHandler
     };
   }
 
+  register(node: ClassDeclaration, analysis: InjectableHandlerData): void {
+    if (this.metaRegistry === null || this.checker === null) {
+      return;
+    }
+    const providedIn = analysis.meta.providedIn.expression;
+    this.metaRegistry.registerInjectableMetadata({
+      node,
+      providedIn:
+        providedIn instanceof LiteralExpr
+          ? (providedIn.value as string | null)
+          : providedIn instanceof WrappedNodeExpr &&
+            ts.isStringLiteralLike(providedIn.node)
+          ? providedIn.node.text
+          : undefined,
+      deps: Array.isArray(analysis.ctorDeps)
+        ? this.getDependencyMetadata(node, analysis.ctorDeps)
+        : analysis.ctorDeps,
+    });
+  }
+
+  /**
+   * Reports the dependencies that are provided in a narrower scope than the injectable, e.g. a
+   * `'request'` injectable that is injected into a `'root'` injectable, and the dependencies on
+   * classes that are not injectable but have constructor parameters.
+   */
+  resolve(node: ClassDeclaration): ResolveResult<unknown> {
+    const meta =
+      this.metaReader !== null
+        ? this.metaReader.getInjectableMetadata(node)
+        : null;
+    if (meta === null || !Array.isArray(meta.deps)) {
+      return {};
+    }
+    const rank = getScopeRank(meta.providedIn);
+    const diagnostics: ts.Diagnostic[] = [];
+    for (const dep of meta.deps) {
+      if (
+        dep.optional ||
+        dep.token === null ||
+        !this.reflector.isClass(dep.token)
+      ) {
+        continue;
+      }
+      const depMeta = this.metaReader!.getInjectableMetadata(dep.token);
+      if (depMeta === null) {
+        if (this.isUndecoratedWithParameters(dep.token)) {
+          const depName = dep.token.name.text;
+          diagnostics.push(
+            makeDiagnostic(
+              ErrorCode.INJECTABLE_UNDECORATED_DEPENDENCY,
+              dep.node,
+              `${node.name.text} depends on ${depName}, which cannot be created via dependency ` +
+                `injection, as it has constructor parameters but no @Injectable decorator.`,
+              [
+                makeRelatedInformation(
+                  dep.token.name,
+                  `${depName} is declared in ${
+                    dep.token.getSourceFile().fileName
+                  }.`
+                ),
+              ]
+            )
+          );
+        }
+        continue;
+      }
+      const depRank = getScopeRank(depMeta.providedIn);
+      if (rank === null || depRank === null || depRank <= rank) {
+        continue;
+      }
+      const depName = dep.token.name.text;
+      diagnostics.push(
+        makeDiagnostic(
+          ErrorCode.INJECTABLE_PROVIDED_IN_MISMATCH,
+          dep.node,
+          `${node.name.text} is provided in '${meta.providedIn}', but its dependency ${depName} ` +
+            `is provided in '${depMeta.providedIn}', so it cannot be injected from the ` +
+            `'${meta.providedIn}' injector.`,
+          [
+            makeRelatedInformation(
+              depMeta.node.name,
+              `${depName} is declared in ${
+                depMeta.node.getSourceFile().fileName
+              }.`
+            ),
+          ]
+        )
+      );
+    }
+    return { diagnostics };
+  }
+
+  /**
+   * Abstract classes are left out, they are usually tokens that are provided with `useClass`.
+   */
+  private isUndecoratedWithParameters(clazz: ClassDeclaration): boolean {
+    if (
+      ts.getCombinedModifierFlags(clazz as ts.Declaration) &
+      ts.ModifierFlags.Abstract
+    ) {
+      return false;
+    }
+    const params = this.reflector.getConstructorParameters(clazz);
+    return params !== null && params.length > 0;
+  }
+
+  private getDependencyMetadata(
+    node: ClassDeclaration,
+    deps: R3DependencyMetadata[]
+  ): InjectableDependencyMeta[] {
+    const params = this.reflector.getConstructorParameters(node) || [];
+    return deps.map((dep, index) => ({
+      token: this.resolveDependencyToken(dep, params[index]),
+      node: params[index] !== undefined ? params[index].nameNode : node,
+      optional: dep.optional,
+      host: dep.host,
+      self: dep.self,
+      skipSelf: dep.skipSelf,
+      lazy: dep.lazy,
+    }));
+  }
+
+  /**
+   * Resolves the declaration of the token of a dependency, which is either the argument of
+   * `@Inject()` (possibly wrapped in `forwardRef()`) or the type of the parameter.
+   */
+  private resolveDependencyToken(
+    dep: R3DependencyMetadata,
+    param: CtorParameter | undefined
+  ): ts.Declaration | null {
+    if (dep.token instanceof WrappedNodeExpr) {
+      const expression = dep.token.node as ts.Expression;
+      return resolveDeclaration(
+        this.checker!,
+        tryUnwrapForwardRef(expression, this.reflector) ?? expression
+      );
+    } else if (param !== undefined) {
+      return resolveTypeValueReference(this.checker!, param.typeValueReference);
+    }
+    return null;
+  }
+
   compileFull(
     node: ClassDeclaration,
     analysis: Readonly<InjectableHandlerData>
@@ -129,6 +303,18 @@ export class InjectableDecoratorHandler
     );
   }
 
+  compilePartial(
+    node: ClassDeclaration,
+    analysis: Readonly<InjectableHandlerData>
+  ): CompileResult[] {
+    return this.compile(
+      compileDeclareFactory,
+      compileDeclareInjectableFromMetadata,
+      node,
+      analysis
+    );
+  }
+
   private compile(
     compileFactoryFn: CompileFactoryFn,
     compileInjectableFn: (meta: R3InjectableMetadata) => R3CompiledExpression,
@@ -204,6 +390,7 @@ function extractInjectableMetadata(
       typeArgumentCount,
       internalType,
       providedIn: createR3ProviderExpression(new LiteralExpr(null), false),
+      providedInType: expressionType(literal(null)),
     };
   } else if (decorator.args.length === 1) {
     const metaNode = decorator.args[0];
@@ -244,7 +431,11 @@ function extractInjectableMetadata(
       typeArgumentCount,
       internalType,
       providedIn,
+      providedInType: getProvidedInType(meta.get('providedIn')),
     };
+    if (meta.has('lifetime')) {
+      result.lifetime = new WrappedNodeExpr(meta.get('lifetime')!);
+    }
     if (meta.has('useValue')) {
       result.useValue = getProviderExpression(meta.get('useValue')!, reflector);
     } else if (meta.has('useExisting')) {
@@ -269,6 +460,43 @@ function extractInjectableMetadata(
   }
 }
 
+/**
+ * Returns the rank of a scope in the injector hierarchy, from `'platform'` to custom scopes such
+ * as `'request'`, or `null` if the scope is not known or is available in every injector.
+ */
+function getScopeRank(providedIn: string | null | undefined): number | null {
+  switch (providedIn) {
+    case 'platform':
+      return 0;
+    case 'root':
+      return 1;
+    case 'any':
+    case null:
+    case undefined:
+      return null;
+    default:
+      return 2;
+  }
+}
+
+/**
+ * Get the type of `providedIn` in the declaration of `ɵprov`. Only a scope name and `null` are
+ * expressed as a type, since other values can't be referenced from a `.d.ts` file reliably.
+ */
+function getProvidedInType(
+  expression: ts.Expression | undefined
+): Type | undefined {
+  if (
+    expression === undefined ||
+    expression.kind === ts.SyntaxKind.NullKeyword
+  ) {
+    return expressionType(literal(null));
+  } else if (ts.isStringLiteralLike(expression)) {
+    return expressionType(literal(expression.text));
+  }
+  return undefined;
+}
+
 /**
  * Get the `R3ProviderExpression` for this `expression`.
  *
@@ -351,8 +579,10 @@ function getDep(
     token: new WrappedNodeExpr(dep),
     attributeNameType: null,
     optional: false,
+    host: false,
     self: false,
     skipSelf: false,
+    lazy: false,
   };
 
   function maybeUpdateDecorator(
@@ -361,7 +591,7 @@ function getDep(
     token?: ts.Expression
   ): boolean {
     const source = reflector.getImportOfIdentifier(dec);
-    if (source === null || source.from !== 'static-injector') {
+    if (source === null || source.from !== CORE_MODULE) {
       return false;
     }
     switch (source.name) {
@@ -376,9 +606,15 @@ function getDep(
       case 'SkipSelf':
         meta.skipSelf = true;
         break;
+      case 'Host':
+        meta.host = true;
+        break;
       case 'Self':
         meta.self = true;
         break;
+      case 'Lazy':
+        meta.lazy = true;
+        break;
       default:
         return false;
     }
@@ -0,0 +1,281 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import {
+  compileDeclareInjectorFromMetadata,
+  compileInjector,
+  Expression,
+  FactoryTarget,
+  R3CompiledExpression,
+  R3DependencyMetadata,
+  R3InjectorMetadata,
+  WrappedNodeExpr,
+} from '../../../../../compiler';
+import * as ts from 'typescript';
+
+import {
+  ErrorCode,
+  FatalDiagnosticError,
+  makeDiagnostic,
+} from '../../diagnostics';
+import { MetadataReader, resolveDeclaration } from '../../metadata';
+import {
+  ClassDeclaration,
+  Decorator,
+  ReflectionHost,
+  reflectObjectLiteral,
+} from '../../reflection';
+import {
+  AnalysisOutput,
+  CompileResult,
+  DecoratorHandler,
+  DetectResult,
+  ResolveResult,
+} from '../../transform';
+
+import {
+  compileDeclareFactory,
+  CompileFactoryFn,
+  compileNgFactoryDefField,
+} from './factory';
+import {
+  findAngularDecorator,
+  getValidConstructorDependencies,
+  tryUnwrapForwardRef,
+  wrapFunctionExpressionsInParens,
+  wrapTypeReference,
+} from './util';
+
+export interface InjectorModuleAnalysis {
+  inj: R3InjectorMetadata;
+  rawProviders: ts.Expression | null;
+  typeArgumentCount: number;
+  ctorDeps: R3DependencyMetadata[] | 'invalid' | null;
+}
+
+/**
+ * Compiles @InjectorModule annotations to `ɵinj` and `ɵfac` fields.
+ */
+export class InjectorModuleDecoratorHandler
+  implements DecoratorHandler<Decorator, InjectorModuleAnalysis, null, unknown>
+{
+  constructor(
+    private reflector: ReflectionHost,
+    private isCore: boolean,
+
+    /**
+     * Where the metadata of the injectables in `providers` is read from, and the type checker that
+     * is used to resolve them.
+     */
+    private metaReader: MetadataReader | null = null,
+    private checker: ts.TypeChecker | null = null
+  ) {}
+
+  detect(
+    node: ClassDeclaration,
+    decorators: Decorator[] | null
+  ): DetectResult<Decorator> | undefined {
+    if (!decorators) {
+      return undefined;
+    }
+    const decorator = findAngularDecorator(
+      decorators,
+      'InjectorModule',
+      this.isCore
+    );
+    if (decorator !== undefined) {
+      return {
+        trigger: decorator.node,
+        decorator: decorator,
+        metadata: decorator,
+      };
+    } else {
+      return undefined;
+    }
+  }
+
+  analyze(
+    node: ClassDeclaration,
+    decorator: Readonly<Decorator>
+  ): AnalysisOutput<InjectorModuleAnalysis> {
+    const name = node.name.text;
+    if (decorator.args === null) {
+      throw new FatalDiagnosticError(
+        ErrorCode.DECORATOR_NOT_CALLED,
+        Decorator.nodeForError(decorator),
+        '@InjectorModule must be called'
+      );
+    }
+    if (decorator.args.length > 1) {
+      throw new FatalDiagnosticError(
+        ErrorCode.DECORATOR_ARITY_WRONG,
+        Decorator.nodeForError(decorator),
+        `Incorrect number of arguments to @InjectorModule decorator`
+      );
+    }
+
+    let providers: Expression | null = null;
+    let imports: Expression | null = null;
+    let rawProviders: ts.Expression | null = null;
+    if (decorator.args.length === 1) {
+      const metaNode = decorator.args[0];
+      if (!ts.isObjectLiteralExpression(metaNode)) {
+        throw new FatalDiagnosticError(
+          ErrorCode.DECORATOR_ARG_NOT_LITERAL,
+          metaNode,
+          '@InjectorModule argument must be an object literal'
+        );
+      }
+      const meta = reflectObjectLiteral(metaNode);
+      if (meta.has('providers')) {
+        rawProviders = meta.get('providers')!;
+        providers = new WrappedNodeExpr(
+          wrapFunctionExpressionsInParens(meta.get('providers')!)
+        );
+      }
+      if (meta.has('imports')) {
+        imports = new WrappedNodeExpr(meta.get('imports')!);
+      }
+    }
+
+    return {
+      analysis: {
+        inj: {
+          name,
+          type: wrapTypeReference(this.reflector, node),
+          internalType: new WrappedNodeExpr(
+            this.reflector.getInternalNameOfClass(node)
+          ),
+          providers,
+          imports,
+        },
+        rawProviders,
+        typeArgumentCount: this.reflector.getGenericArityOfClass(node) || 0,
+        ctorDeps: getValidConstructorDependencies(
+          node,
+          this.reflector,
+          this.isCore
+        ),
+      },
+    };
+  }
+
+  /**
+   * Reports the classes in `providers` that cannot be created by the injector, because they have
+   * constructor parameters but are not injectable.
+   */
+  resolve(
+    node: ClassDeclaration,
+    analysis: Readonly<InjectorModuleAnalysis>
+  ): ResolveResult<unknown> {
+    if (
+      this.metaReader === null ||
+      this.checker === null ||
+      analysis.rawProviders === null
+    ) {
+      return {};
+    }
+    const diagnostics: ts.Diagnostic[] = [];
+    for (const provider of this.getProviderClasses(analysis.rawProviders)) {
+      const clazz = resolveDeclaration(this.checker, provider);
+      if (
+        clazz === null ||
+        !this.reflector.isClass(clazz) ||
+        this.metaReader.getInjectableMetadata(clazz) !== null
+      ) {
+        continue;
+      }
+      const params = this.reflector.getConstructorParameters(clazz);
+      if (params === null || params.length === 0) {
+        continue;
+      }
+      const name = clazz.name.text;
+      diagnostics.push(
+        makeDiagnostic(
+          ErrorCode.UNDECORATED_PROVIDER,
+          provider,
+          `The class '${name}' cannot be created via dependency injection, as it does not have ` +
+            `an @Injectable decorator. This will result in an error at runtime.\n\n` +
+            `Either add the @Injectable() decorator to '${name}', or configure a different ` +
+            `provider (such as a provider with 'useFactory').`
+        )
+      );
+    }
+    return { diagnostics };
+  }
+
+  /**
+   * Collects the class references of a statically analysable `providers` array, which are either
+   * listed directly or used as `useClass`.
+   */
+  private getProviderClasses(expression: ts.Expression): ts.Expression[] {
+    expression = tryUnwrapForwardRef(expression, this.reflector) ?? expression;
+    if (ts.isArrayLiteralExpression(expression)) {
+      return ([] as ts.Expression[]).concat(
+        ...expression.elements.map((element) =>
+          this.getProviderClasses(element)
+        )
+      );
+    } else if (
+      ts.isIdentifier(expression) ||
+      ts.isPropertyAccessExpression(expression)
+    ) {
+      return [expression];
+    } else if (ts.isObjectLiteralExpression(expression)) {
+      const useClass = reflectObjectLiteral(expression).get('useClass');
+      return useClass !== undefined
+        ? [tryUnwrapForwardRef(useClass, this.reflector) ?? useClass]
+        : [];
+    }
+    return [];
+  }
+
+  compileFull(
+    node: ClassDeclaration,
+    analysis: Readonly<InjectorModuleAnalysis>
+  ): CompileResult[] {
+    return this.compile(compileNgFactoryDefField, compileInjector, analysis);
+  }
+
+  compilePartial(
+    node: ClassDeclaration,
+    analysis: Readonly<InjectorModuleAnalysis>
+  ): CompileResult[] {
+    return this.compile(
+      compileDeclareFactory,
+      compileDeclareInjectorFromMetadata,
+      analysis
+    );
+  }
+
+  private compile(
+    compileFactoryFn: CompileFactoryFn,
+    compileInjectorFn: (meta: R3InjectorMetadata) => R3CompiledExpression,
+    analysis: Readonly<InjectorModuleAnalysis>
+  ): CompileResult[] {
+    const { inj } = analysis;
+    const factoryRes = compileFactoryFn({
+      name: inj.name,
+      type: inj.type,
+      internalType: inj.internalType,
+      typeArgumentCount: analysis.typeArgumentCount,
+      deps: analysis.ctorDeps,
+      target: FactoryTarget.NgModule,
+    });
+    const injRes = compileInjectorFn(inj);
+    return [
+      factoryRes,
+      {
+        name: 'ɵinj',
+        initializer: injRes.expression,
+        statements: injRes.statements,
+        type: injRes.type,
+      },
+    ];
+  }
+}
@@ -12,6 +12,7 @@ import {
   R3DependencyMetadata,
   R3Reference,
   ReadPropExpr,
+  typeofExpr,
   WrappedNodeExpr,
 } from '../../../../../compiler';
 import { R3FactoryMetadata } from '../../../../../compiler';
@@ -25,6 +26,7 @@ import {
 } from '../../diagnostics';
 import {
   ClassDeclaration,
+  CORE_MODULE,
   CtorParameter,
   Decorator,
   Import,
@@ -37,6 +39,7 @@ import {
   UnavailableValue,
   ValueUnavailableKind,
 } from '../../reflection';
+import { getModifiers } from '../../ts_compatibility';
 
 export type ConstructorDeps =
   | {
@@ -71,9 +74,12 @@ export function getConstructorDependencies(
   ctorParams.forEach((param, idx) => {
     let token = valueReferenceToExpression(param.typeValueReference);
     let attributeNameType: Expression | null = null;
+    let tokenType: Expression | undefined = undefined;
     let optional = false,
+      host = false,
       self = false,
-      skipSelf = false;
+      skipSelf = false,
+      lazy = false;
 
     (param.decorators || [])
       .filter((dec) => isCore || isAngularCore(dec))
@@ -89,12 +95,17 @@ export function getConstructorDependencies(
             );
           }
           token = new WrappedNodeExpr(dec.args[0]);
+          tokenType = createTokenType(dec.args[0], reflector);
         } else if (name === 'Optional') {
           optional = true;
         } else if (name === 'SkipSelf') {
           skipSelf = true;
+        } else if (name === 'Host') {
+          host = true;
         } else if (name === 'Self') {
           self = true;
+        } else if (name === 'Lazy') {
+          lazy = true;
         } else {
           throw new FatalDiagnosticError(
             ErrorCode.DECORATOR_UNEXPECTED,
@@ -118,7 +129,16 @@ export function getConstructorDependencies(
         reason: param.typeValueReference.reason,
       });
     } else {
-      deps.push({ token, attributeNameType, optional, self, skipSelf });
+      deps.push({
+        token,
+        attributeNameType,
+        tokenType,
+        optional,
+        host,
+        self,
+        skipSelf,
+        lazy,
+      });
     }
   });
   if (errors.length === 0) {
@@ -128,6 +148,67 @@ export function getConstructorDependencies(
   }
 }
 
+/**
+ * Creates the type of an `@Inject()` token for the declaration file. This is a `typeof` query of
+ * the token if it is an imported or exported identifier, as only those can be referenced from the
+ * declaration file, or the unknown type otherwise.
+ */
+function createTokenType(
+  token: ts.Expression,
+  reflector: ReflectionHost
+): Expression {
+  const expr = unwrapExpression(tryUnwrapForwardRef(token, reflector) ?? token);
+  if (ts.isIdentifier(expr)) {
+    const imp = reflector.getImportOfIdentifier(expr);
+    if (imp !== null) {
+      return typeofExpr(
+        new ExternalExpr({ moduleName: imp.from, name: imp.name })
+      );
+    } else if (isExportedFromSourceFile(expr)) {
+      return typeofExpr(new WrappedNodeExpr(expr));
+    }
+  }
+  return new WrappedNodeExpr(
+    ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)
+  );
+}
+
+/**
+ * Whether `id` is the name of a declaration in its own source file that is exported from it.
+ */
+function isExportedFromSourceFile(id: ts.Identifier): boolean {
+  const isExported = (node: ts.Node) =>
+    (getModifiers(node) ?? []).some(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+    );
+  return id.getSourceFile().statements.some((stmt) => {
+    if (ts.isVariableStatement(stmt)) {
+      return (
+        isExported(stmt) &&
+        stmt.declarationList.declarations.some(
+          (decl) => ts.isIdentifier(decl.name) && decl.name.text === id.text
+        )
+      );
+    } else if (
+      ts.isClassDeclaration(stmt) ||
+      ts.isFunctionDeclaration(stmt) ||
+      ts.isEnumDeclaration(stmt)
+    ) {
+      return isExported(stmt) && stmt.name?.text === id.text;
+    } else if (
+      ts.isExportDeclaration(stmt) &&
+      stmt.moduleSpecifier === undefined &&
+      stmt.exportClause !== undefined &&
+      ts.isNamedExports(stmt.exportClause)
+    ) {
+      return stmt.exportClause.elements.some(
+        (element) => (element.propertyName ?? element.name).text === id.text
+      );
+    }
+    return false;
+  });
+}
+
 /**
  * Convert a `TypeValueReference` to an `Expression` which refers to the type as a value.
  *
@@ -322,13 +403,10 @@ function createUnsuitableInjectionTokenError(
   );
 }
 
-/** todo 需要改成自己的依赖包 */
 export function isAngularCore(
   decorator: Decorator
 ): decorator is Decorator & { import: Import } {
-  return (
-    decorator.import !== null && decorator.import.from === 'static-injector'
-  );
+  return decorator.import !== null && decorator.import.from === CORE_MODULE;
 }
 
 export function findAngularDecorator(
@@ -422,12 +500,7 @@ export function tryUnwrapForwardRef(
   }
 
   const imp = reflector.getImportOfIdentifier(fn);
-  //todo 更换包名
-  if (
-    imp === null ||
-    imp.from !== 'static-injector' ||
-    imp.name !== 'forwardRef'
-  ) {
+  if (imp === null || imp.from !== CORE_MODULE || imp.name !== 'forwardRef') {
     return null;
   }
 
@@ -440,7 +513,7 @@ const parensWrapperTransformerFactory: ts.TransformerFactory<ts.Expression> = (
   const visitor: ts.Visitor = (node: ts.Node): ts.Node => {
     const visited = ts.visitEachChild(node, visitor, context);
     if (ts.isArrowFunction(visited) || ts.isFunctionExpression(visited)) {
-      return ts.createParen(visited);
+      return ts.factory.createParenthesizedExpression(visited);
     }
     return visited;
   };
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import * as ts from 'typescript';
+
+import {
+  ErrorCode,
+  makeDiagnostic,
+  makeRelatedInformation,
+} from '../../diagnostics';
+import {
+  getClassDependencies,
+  InjectableDependencyMeta,
+  MetadataReader,
+} from '../../metadata';
+import { ClassDeclaration, ReflectionHost } from '../../reflection';
+
+export interface InjectableCycleOptions {
+  /**
+   * Whether `@Optional()` dependencies are left out of the dependency graph. Defaults to `false`,
+   * since an optional dependency is still created when it is available.
+   */
+  optionalBreaksCycle?: boolean;
+
+  /**
+   * Whether lazy dependencies (`LazyHandle<T>`) are left out of the dependency graph. Defaults to
+   * `true`, since they are only created after the injectable itself.
+   */
+  lazyBreaksCycle?: boolean;
+}
+
+/**
+ * A dependency of `from` that is part of a cycle.
+ */
+export interface CycleEdge {
+  from: ClassDeclaration;
+  dep: InjectableDependencyMeta & { token: ClassDeclaration };
+}
+
+/**
+ * Analyzes the graph of the constructor dependencies of injectables (including `forwardRef()`
+ * tokens) for cycles, which fail at runtime when the first injectable of the cycle is created.
+ */
+export class InjectableCycleAnalyzer {
+  /**
+   * The class that reports each cycle, by the key of the cycle, so that a cycle is reported once
+   * however many of its classes are checked.
+   */
+  private reporters = new Map<string, ClassDeclaration>();
+
+  constructor(
+    private checker: ts.TypeChecker,
+    private reflector: ReflectionHost,
+    private metaReader: MetadataReader,
+    private options: InjectableCycleOptions = {}
+  ) {}
+
+  /**
+   * Returns a diagnostic for the cycle that `clazz` is part of, if there is one and it was not
+   * reported for another class already.
+   */
+  checkClass(clazz: ClassDeclaration): ts.Diagnostic | null {
+    const cycle = this.findCycle(clazz);
+    if (cycle === null) {
+      return null;
+    }
+    const key = cycle
+      .map((edge) => getClassLocation(edge.from))
+      .sort()
+      .join('\n');
+    if (!this.reporters.has(key)) {
+      this.reporters.set(key, clazz);
+    } else if (this.reporters.get(key) !== clazz) {
+      return null;
+    }
+    const chain = [...cycle.map((edge) => edge.from), clazz].map(
+      (node) => `${node.name.text} (${node.getSourceFile().fileName})`
+    );
+    return makeDiagnostic(
+      ErrorCode.INJECTABLE_DEPENDENCY_CYCLE,
+      cycle[0].dep.node,
+      `Circular dependency between injectables: ${chain.join(' -> ')}.`,
+      cycle.map((edge) =>
+        makeRelatedInformation(
+          edge.dep.node,
+          `${edge.from.name.text} injects ${edge.dep.token.name.text} here.`
+        )
+      )
+    );
+  }
+
+  /**
+   * Searches a path of dependencies from `start` back to itself.
+   */
+  private findCycle(start: ClassDeclaration): CycleEdge[] | null {
+    const visited = new Set<ClassDeclaration>();
+    const path: CycleEdge[] = [];
+    const visit = (clazz: ClassDeclaration): boolean => {
+      visited.add(clazz);
+      for (const dep of this.getEdges(clazz)) {
+        path.push({ from: clazz, dep });
+        if (
+          dep.token === start ||
+          (!visited.has(dep.token) && visit(dep.token))
+        ) {
+          return true;
+        }
+        path.pop();
+      }
+      return false;
+    };
+    return visit(start) ? path : null;
+  }
+
+  private getEdges(clazz: ClassDeclaration): CycleEdge['dep'][] {
+    const deps =
+      getClassDependencies(
+        clazz,
+        this.metaReader,
+        this.reflector,
+        this.checker
+      ) || [];
+    const optionalBreaksCycle = this.options.optionalBreaksCycle ?? false;
+    const lazyBreaksCycle = this.options.lazyBreaksCycle ?? true;
+    return deps.filter(
+      (dep): dep is CycleEdge['dep'] =>
+        dep.token !== null &&
+        this.reflector.isClass(dep.token) &&
+        !(dep.optional && optionalBreaksCycle) &&
+        !(dep.lazy && lazyBreaksCycle)
+    );
+  }
+}
+
+function getClassLocation(clazz: ClassDeclaration): string {
+  return `${clazz.getSourceFile().fileName}:${clazz.getStart()}`;
+}
@@ -189,6 +189,30 @@ export enum ErrorCode {
    */
   INJECTABLE_DUPLICATE_PROV = 9001,
 
+  /**
+   * An injectable depends on an injectable that is provided in a narrower scope, e.g. a `'root'`
+   * injectable on a `'request'` injectable, which cannot be resolved from its injector.
+   */
+  INJECTABLE_PROVIDED_IN_MISMATCH = 9002,
+
+  /**
+   * An injectable depends on a class that is not injectable but has constructor parameters, so the
+   * injector cannot create it.
+   */
+  INJECTABLE_UNDECORATED_DEPENDENCY = 9003,
+
+  /**
+   * A token that is injected by a provider of an `Injector.create()` call is neither provided by
+   * the call nor available without a provider.
+   */
+  MISSING_PROVIDER = 9004,
+
+  /**
+   * The constructor dependencies of injectables form a cycle, e.g. `A` depends on `B` which
+   * depends on `A`.
+   */
+  INJECTABLE_DEPENDENCY_CYCLE = 9005,
+
   // 10XXX error codes are reserved for diagnostics with categories other than
   // `ts.DiagnosticCategory.Error`. These diagnostics are generated by the compiler when configured
   // to do so by a tool such as the Language Service, or by the Language Service itself.
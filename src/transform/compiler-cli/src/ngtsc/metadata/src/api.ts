@@ -0,0 +1,64 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import * as ts from 'typescript';
+
+import { ClassDeclaration } from '../../reflection';
+
+/**
+ * Metadata collected for an injectable class, either from its `@Injectable` decorator or from the
+ * `ɵprov`/`ɵfac` fields that are declared in a `.d.ts` file of a separately built package.
+ */
+export interface InjectableMeta {
+  node: ClassDeclaration;
+
+  /**
+   * The scope name of `providedIn` (e.g. `'root'`), `null` if the class is not provided in any
+   * injector by itself, or `undefined` if it is not known statically.
+   */
+  providedIn: string | null | undefined;
+
+  /**
+   * The constructor dependencies. `null` if they are inherited from the base class or are not
+   * known, `'invalid'` if some of them cannot be resolved.
+   */
+  deps: InjectableDependencyMeta[] | 'invalid' | null;
+}
+
+export interface InjectableDependencyMeta {
+  /**
+   * The declaration that the token refers to, e.g. a class or the variable of an
+   * `InjectionToken`, or `null` if the token is not a reference.
+   */
+  token: ts.Declaration | null;
+
+  /**
+   * The node that declares the dependency, where diagnostics about it are reported.
+   */
+  node: ts.Node;
+
+  optional: boolean;
+  host: boolean;
+  self: boolean;
+  skipSelf: boolean;
+  lazy: boolean;
+}
+
+/**
+ * Reads the metadata of injectable classes.
+ */
+export interface MetadataReader {
+  getInjectableMetadata(node: ClassDeclaration): InjectableMeta | null;
+}
+
+/**
+ * Registers the metadata of the injectable classes of the current compilation.
+ */
+export interface MetadataRegistry {
+  registerInjectableMetadata(meta: InjectableMeta): void;
+}
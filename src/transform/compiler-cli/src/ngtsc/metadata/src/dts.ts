@@ -0,0 +1,192 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import * as ts from 'typescript';
+
+import { ClassDeclaration, ReflectionHost } from '../../reflection';
+
+import {
+  InjectableDependencyMeta,
+  InjectableMeta,
+  MetadataReader,
+} from './api';
+import { resolveDeclaration, resolveTypeValueReference } from './util';
+
+/**
+ * A `MetadataReader` that can read the metadata of injectable classes in `.d.ts` files, from the
+ * `ɵprov: ɵɵInjectableDeclaration<T, ProvidedIn>` and
+ * `ɵfac: ɵɵFactoryDeclaration<T, CtorDependencies>` fields that are emitted by the declaration
+ * transformer.
+ */
+export class DtsMetadataReader implements MetadataReader {
+  constructor(
+    private checker: ts.TypeChecker,
+    private reflector: ReflectionHost
+  ) {}
+
+  /**
+   * Read the metadata of the injectable class `clazz`, which comes from a `.d.ts` file.
+   *
+   * A class with a `ɵprov` field of another type (e.g. of a package that was built without the
+   * declaration transformer) is still injectable, but its `providedIn` is unknown.
+   */
+  getInjectableMetadata(clazz: ClassDeclaration): InjectableMeta | null {
+    if (!clazz.getSourceFile().isDeclarationFile) {
+      return null;
+    }
+    const members = this.reflector.getMembersOfClass(clazz);
+    const prov = members.find(
+      (member) => member.isStatic && member.name === 'ɵprov'
+    );
+    if (prov === undefined) {
+      return null;
+    }
+    const fac = members.find(
+      (member) => member.isStatic && member.name === 'ɵfac'
+    );
+    return {
+      node: clazz,
+      providedIn: readProvidedIn(prov.type),
+      deps: fac !== undefined ? this.readDependencies(clazz, fac.type) : null,
+    };
+  }
+
+  private readDependencies(
+    clazz: ClassDeclaration,
+    facType: ts.TypeNode | null
+  ): InjectableDependencyMeta[] | null {
+    const typeArgs = getTypeArguments(facType, 'ɵɵFactoryDeclaration');
+    if (typeArgs === null || typeArgs.length !== 2) {
+      return null;
+    }
+    const params = this.reflector.getConstructorParameters(clazz);
+    if (params === null) {
+      // Without a constructor, the class either has no dependencies or inherits them.
+      return this.reflector.hasBaseClass(clazz) ? null : [];
+    }
+    // The flags are only emitted when at least one dependency has flags, `never` otherwise.
+    const flags = ts.isTupleTypeNode(typeArgs[1]) ? typeArgs[1].elements : [];
+    return params.map((param, index) => {
+      const tokenType = readTokenType(flags[index]);
+      return {
+        token:
+          tokenType === undefined
+            ? resolveTypeValueReference(this.checker, param.typeValueReference)
+            : this.resolveTokenType(tokenType),
+        node: param.nameNode,
+        ...readDependencyFlags(flags[index]),
+      };
+    });
+  }
+
+  /**
+   * Resolves the `token` of an `@Inject()` dependency, which is a `typeof` query of the token, or
+   * the unknown type if the token could not be referenced from the declaration file.
+   */
+  private resolveTokenType(type: ts.TypeNode): ts.Declaration | null {
+    if (!ts.isTypeQueryNode(type)) {
+      return null;
+    }
+    const name = ts.isQualifiedName(type.exprName)
+      ? type.exprName.right
+      : type.exprName;
+    return resolveDeclaration(this.checker, name);
+  }
+}
+
+/**
+ * Reads the literal type of the `ProvidedIn` type argument of `ɵɵInjectableDeclaration`.
+ */
+function readProvidedIn(type: ts.TypeNode | null): string | null | undefined {
+  const typeArgs = getTypeArguments(type, 'ɵɵInjectableDeclaration');
+  if (typeArgs === null || typeArgs.length !== 2) {
+    return undefined;
+  }
+  const providedIn = typeArgs[1];
+  if (!ts.isLiteralTypeNode(providedIn)) {
+    return undefined;
+  } else if (providedIn.literal.kind === ts.SyntaxKind.NullKeyword) {
+    return null;
+  } else if (ts.isStringLiteral(providedIn.literal)) {
+    return providedIn.literal.text;
+  }
+  return undefined;
+}
+
+/**
+ * Reads an entry of `CtorDependencies`, which is either `null` or an object literal type such as
+ * `{ optional: true; }`.
+ */
+function readDependencyFlags(
+  type: ts.Node | undefined
+): Omit<InjectableDependencyMeta, 'token' | 'node'> {
+  const flags = {
+    optional: false,
+    host: false,
+    self: false,
+    skipSelf: false,
+    lazy: false,
+  };
+  if (type === undefined || !ts.isTypeLiteralNode(type)) {
+    return flags;
+  }
+  for (const member of type.members) {
+    if (
+      ts.isPropertySignature(member) &&
+      ts.isIdentifier(member.name) &&
+      member.name.text in flags &&
+      member.type !== undefined &&
+      ts.isLiteralTypeNode(member.type) &&
+      member.type.literal.kind === ts.SyntaxKind.TrueKeyword
+    ) {
+      flags[member.name.text as keyof typeof flags] = true;
+    }
+  }
+  return flags;
+}
+
+/**
+ * Reads the type of the `token` of an entry of `CtorDependencies`, which is only emitted for
+ * dependencies with an `@Inject()` decorator.
+ */
+function readTokenType(type: ts.Node | undefined): ts.TypeNode | undefined {
+  if (type === undefined || !ts.isTypeLiteralNode(type)) {
+    return undefined;
+  }
+  for (const member of type.members) {
+    if (
+      ts.isPropertySignature(member) &&
+      ts.isIdentifier(member.name) &&
+      member.name.text === 'token' &&
+      member.type !== undefined
+    ) {
+      return member.type;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the type arguments of `type` if it is a reference to the type `name`, which may be
+ * qualified by the namespace import of `static-injector`.
+ */
+function getTypeArguments(
+  type: ts.TypeNode | null,
+  name: string
+): ts.NodeArray<ts.TypeNode> | null {
+  if (type === null || !ts.isTypeReferenceNode(type)) {
+    return null;
+  }
+  const typeName = ts.isQualifiedName(type.typeName)
+    ? type.typeName.right
+    : type.typeName;
+  if (typeName.text !== name || type.typeArguments === undefined) {
+    return null;
+  }
+  return type.typeArguments;
+}
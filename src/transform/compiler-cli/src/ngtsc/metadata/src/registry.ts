@@ -0,0 +1,44 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { ClassDeclaration } from '../../reflection';
+
+import { InjectableMeta, MetadataReader, MetadataRegistry } from './api';
+
+/**
+ * A registry of the metadata of the injectable classes in the current compilation, which also
+ * serves it as a `MetadataReader`.
+ */
+export class LocalMetadataRegistry implements MetadataRegistry, MetadataReader {
+  private injectables = new Map<ClassDeclaration, InjectableMeta>();
+
+  getInjectableMetadata(node: ClassDeclaration): InjectableMeta | null {
+    return this.injectables.has(node) ? this.injectables.get(node)! : null;
+  }
+
+  registerInjectableMetadata(meta: InjectableMeta): void {
+    this.injectables.set(meta.node, meta);
+  }
+}
+
+/**
+ * A `MetadataReader` that returns the metadata of the first reader that has it.
+ */
+export class CompoundMetadataReader implements MetadataReader {
+  constructor(private readers: MetadataReader[]) {}
+
+  getInjectableMetadata(node: ClassDeclaration): InjectableMeta | null {
+    for (const reader of this.readers) {
+      const meta = reader.getInjectableMetadata(node);
+      if (meta !== null) {
+        return meta;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import * as ts from 'typescript';
+
+import {
+  ClassDeclaration,
+  ReflectionHost,
+  TypeValueReference,
+  TypeValueReferenceKind,
+} from '../../reflection';
+
+import { InjectableDependencyMeta, MetadataReader } from './api';
+
+/**
+ * Resolves the declaration that `node` refers to, following aliases such as imports and
+ * re-exports.
+ */
+export function resolveDeclaration(
+  checker: ts.TypeChecker,
+  node: ts.Node
+): ts.Declaration | null {
+  node = ts.getOriginalNode(node);
+  if (ts.isPropertyAccessExpression(node)) {
+    node = node.name;
+  }
+  let symbol = checker.getSymbolAtLocation(node);
+  if (symbol !== undefined && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  if (symbol === undefined) {
+    return null;
+  }
+  return (
+    symbol.valueDeclaration ??
+    (symbol.declarations !== undefined && symbol.declarations.length > 0
+      ? symbol.declarations[0]
+      : null)
+  );
+}
+
+/**
+ * Resolves the declaration that the type of a constructor parameter refers to as a value.
+ */
+export function resolveTypeValueReference(
+  checker: ts.TypeChecker,
+  valueRef: TypeValueReference
+): ts.Declaration | null {
+  switch (valueRef.kind) {
+    case TypeValueReferenceKind.LOCAL:
+      return resolveDeclaration(checker, valueRef.expression);
+    case TypeValueReferenceKind.IMPORTED:
+      return valueRef.valueDeclaration as ts.Declaration;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns the constructor dependencies of an injectable class, following the base classes whose
+ * constructor is inherited, or `null` if they are not known.
+ */
+export function getClassDependencies(
+  clazz: ClassDeclaration,
+  metaReader: MetadataReader,
+  reflector: ReflectionHost,
+  checker: ts.TypeChecker
+): InjectableDependencyMeta[] | null {
+  const meta = metaReader.getInjectableMetadata(clazz);
+  if (meta === null || meta.deps === 'invalid') {
+    return null;
+  } else if (meta.deps !== null) {
+    return meta.deps;
+  }
+  const baseExpression = reflector.getBaseClassExpression(clazz);
+  const base =
+    baseExpression !== null
+      ? resolveDeclaration(checker, baseExpression)
+      : null;
+  return base !== null && reflector.isClass(base)
+    ? getClassDependencies(base, metaReader, reflector, checker)
+    : null;
+}
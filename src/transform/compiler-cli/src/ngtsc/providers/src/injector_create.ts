@@ -0,0 +1,447 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import * as ts from 'typescript';
+
+import {
+  tryUnwrapForwardRef,
+  unwrapExpression,
+} from '../../annotations/src/util';
+import {
+  ErrorCode,
+  makeDiagnostic,
+  makeRelatedInformation,
+} from '../../diagnostics';
+import {
+  getClassDependencies,
+  InjectableDependencyMeta,
+  MetadataReader,
+  resolveDeclaration,
+} from '../../metadata';
+import {
+  ClassDeclaration,
+  CORE_MODULE,
+  ReflectionHost,
+  reflectObjectLiteral,
+} from '../../reflection';
+
+export type ProviderDependency = Pick<
+  InjectableDependencyMeta,
+  'token' | 'node' | 'optional'
+>;
+
+/**
+ * A provider of an `Injector.create()` call.
+ */
+export interface ProviderRecord {
+  /**
+   * The provider in the `providers` array, where diagnostics about its dependencies are reported.
+   */
+  node: ts.Expression;
+
+  /**
+   * The declaration of the provided token, or `null` if the token is not a reference (e.g. a
+   * string).
+   */
+  token: ts.Declaration | null;
+
+  /**
+   * The name of the token in the dependency chains of diagnostics.
+   */
+  name: string;
+
+  /**
+   * The tokens that are injected when the provider is created, or `null` if they are not known.
+   */
+  deps: ProviderDependency[] | null;
+}
+
+/**
+ * Scopes whose injectables are treated as available in every injector.
+ */
+const AVAILABLE_SCOPES = new Set(['root', 'platform', 'any']);
+
+/**
+ * Checks the `Injector.create()` calls with a statically analysable `providers` array: every token
+ * that is injected, directly or through the dependencies of other providers, must either be
+ * provided by the array or be an injectable that is available without a provider, such as a
+ * `providedIn: 'root'` class.
+ *
+ * Calls with a `parent` injector are skipped, since it may provide any of the tokens.
+ */
+export class InjectorCreateChecker {
+  constructor(
+    private checker: ts.TypeChecker,
+    private reflector: ReflectionHost,
+    private metaReader: MetadataReader
+  ) {}
+
+  checkSourceFile(sf: ts.SourceFile): ts.Diagnostic[] {
+    const diagnostics: ts.Diagnostic[] = [];
+    const visit = (node: ts.Node): void => {
+      if (ts.isCallExpression(node) && this.isInjectorCreate(node)) {
+        diagnostics.push(...this.checkInjectorCreate(node));
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sf);
+    return diagnostics;
+  }
+
+  private isInjectorCreate(call: ts.CallExpression): boolean {
+    const callee = call.expression;
+    if (
+      !ts.isPropertyAccessExpression(callee) ||
+      callee.name.text !== 'create' ||
+      !ts.isIdentifier(callee.expression)
+    ) {
+      return false;
+    }
+    const imp = this.reflector.getImportOfIdentifier(callee.expression);
+    return imp !== null && imp.from === CORE_MODULE && imp.name === 'Injector';
+  }
+
+  private checkInjectorCreate(call: ts.CallExpression): ts.Diagnostic[] {
+    if (call.arguments.length === 0) {
+      return [];
+    }
+    const options = unwrapExpression(call.arguments[0]);
+    let providers: ts.Expression;
+    let scope: string | null = null;
+    if (ts.isArrayLiteralExpression(options)) {
+      if (call.arguments.length > 1) {
+        return [];
+      }
+      providers = options;
+    } else if (ts.isObjectLiteralExpression(options)) {
+      const meta = reflectObjectLiteral(options);
+      if (meta.has('parent') || !meta.has('providers')) {
+        return [];
+      }
+      providers = meta.get('providers')!;
+      if (meta.has('scope')) {
+        const scopeExpr = meta.get('scope')!;
+        if (!ts.isStringLiteralLike(scopeExpr)) {
+          return [];
+        }
+        scope = scopeExpr.text;
+      }
+    } else {
+      return [];
+    }
+
+    const records = this.getProviderRecords(providers);
+    if (records === null) {
+      return [];
+    }
+    const provided = new Set(records.map((record) => record.token));
+    const visited = new Set<ts.Declaration>();
+    const reported = new Set<ts.Declaration>();
+    const diagnostics: ts.Diagnostic[] = [];
+
+    const checkDependencies = (
+      record: ProviderRecord,
+      deps: ProviderDependency[] | null,
+      chain: string[]
+    ): void => {
+      if (deps === null) {
+        return;
+      }
+      for (const dep of deps) {
+        if (dep.token === null || provided.has(dep.token)) {
+          // The dependencies of provided tokens are checked from their own record.
+          continue;
+        }
+        const name = getTokenName(dep.token);
+        const injectable = this.getUnprovidedInjectable(dep.token, scope);
+        if (injectable === null) {
+          if (!dep.optional && !reported.has(dep.token)) {
+            reported.add(dep.token);
+            diagnostics.push(
+              makeDiagnostic(
+                ErrorCode.MISSING_PROVIDER,
+                record.node,
+                `No provider for ${name} in Injector.create(), which is required by ` +
+                  `${[...chain, name].join(' -> ')}.`,
+                [makeRelatedInformation(dep.node, `${name} is injected here.`)]
+              )
+            );
+          }
+        } else if (!visited.has(dep.token)) {
+          visited.add(dep.token);
+          checkDependencies(record, injectable.deps, [...chain, name]);
+        }
+      }
+    };
+    for (const record of records) {
+      checkDependencies(record, record.deps, [record.name]);
+    }
+    return diagnostics;
+  }
+
+  /**
+   * Collects the providers of a `providers` array, or returns `null` if some of them cannot be
+   * analysed statically.
+   */
+  private getProviderRecords(
+    expression: ts.Expression
+  ): ProviderRecord[] | null {
+    expression = unwrapExpression(
+      tryUnwrapForwardRef(expression, this.reflector) ?? expression
+    );
+    if (ts.isArrayLiteralExpression(expression)) {
+      const records: ProviderRecord[] = [];
+      for (const element of expression.elements) {
+        const elementRecords = this.getProviderRecords(element);
+        if (elementRecords === null) {
+          return null;
+        }
+        records.push(...elementRecords);
+      }
+      return records;
+    } else if (
+      ts.isIdentifier(expression) ||
+      ts.isPropertyAccessExpression(expression)
+    ) {
+      const decl = resolveDeclaration(this.checker, expression);
+      if (decl !== null && this.reflector.isClass(decl)) {
+        return [
+          {
+            node: expression,
+            token: decl,
+            name: getTokenName(decl),
+            deps: this.getClassDependencies(decl),
+          },
+        ];
+      } else if (
+        decl !== null &&
+        ts.isVariableDeclaration(decl) &&
+        decl.initializer !== undefined &&
+        ts.getCombinedNodeFlags(decl) & ts.NodeFlags.Const
+      ) {
+        // e.g. `const providers = [...]`
+        return this.getProviderRecords(decl.initializer);
+      }
+      return null;
+    } else if (ts.isObjectLiteralExpression(expression)) {
+      const meta = reflectObjectLiteral(expression);
+      if (!meta.has('provide')) {
+        return null;
+      }
+      const provide = meta.get('provide')!;
+      const token = this.resolveToken(provide);
+      return [
+        {
+          node: expression,
+          token,
+          name: token !== null ? getTokenName(token) : provide.getText(),
+          deps: this.getProviderDependencies(meta),
+        },
+      ];
+    }
+    return null;
+  }
+
+  private getProviderDependencies(
+    meta: Map<string, ts.Expression>
+  ): ProviderDependency[] | null {
+    if (meta.has('useValue')) {
+      return [];
+    } else if (meta.has('useExisting')) {
+      const useExisting = meta.get('useExisting')!;
+      return [
+        {
+          token: this.resolveToken(useExisting),
+          node: useExisting,
+          optional: false,
+        },
+      ];
+    } else if (meta.has('useFactory') || meta.has('useAsyncFactory')) {
+      // A factory without `deps` may still call `inject()`, which is not followed.
+      return meta.has('deps') ? this.getDepsArray(meta.get('deps')!) : [];
+    } else if (meta.has('deps')) {
+      return this.getDepsArray(meta.get('deps')!);
+    }
+    const clazz = this.resolveToken(
+      meta.get('useClass') ?? meta.get('provide')!
+    );
+    return clazz !== null && this.reflector.isClass(clazz)
+      ? this.getClassDependencies(clazz)
+      : null;
+  }
+
+  /**
+   * Reads a `deps` array, whose entries are either a token or an array of a token and flags such
+   * as `Optional` or `new Optional()`.
+   */
+  private getDepsArray(expression: ts.Expression): ProviderDependency[] | null {
+    expression = unwrapExpression(expression);
+    if (!ts.isArrayLiteralExpression(expression)) {
+      return null;
+    }
+    return expression.elements.map((element) => {
+      element = unwrapExpression(element);
+      if (!ts.isArrayLiteralExpression(element)) {
+        return {
+          token: this.resolveToken(element),
+          node: element,
+          optional: false,
+        };
+      }
+      let token: ts.Declaration | null = null;
+      let optional = false;
+      for (const item of element.elements) {
+        const flag = this.getDependencyFlag(item);
+        if (flag === null) {
+          token = this.resolveToken(item);
+        } else if (flag.name === 'Optional') {
+          optional = true;
+        } else if (flag.name === 'Inject' && flag.args.length === 1) {
+          token = this.resolveToken(flag.args[0]);
+        }
+      }
+      return { token, node: element, optional };
+    });
+  }
+
+  /**
+   * Returns the name and arguments of a flag of a `deps` entry (e.g. `Optional` or
+   * `new Inject(TOKEN)`), or `null` if the expression is not a flag.
+   */
+  private getDependencyFlag(
+    expression: ts.Expression
+  ): { name: string; args: readonly ts.Expression[] } | null {
+    expression = unwrapExpression(expression);
+    let args: readonly ts.Expression[] = [];
+    if (ts.isNewExpression(expression)) {
+      args = expression.arguments ?? [];
+      expression = expression.expression;
+    }
+    if (!ts.isIdentifier(expression)) {
+      return null;
+    }
+    const imp = this.reflector.getImportOfIdentifier(expression);
+    if (
+      imp === null ||
+      imp.from !== CORE_MODULE ||
+      !['Optional', 'Self', 'SkipSelf', 'Host', 'Inject'].includes(imp.name)
+    ) {
+      return null;
+    }
+    return { name: imp.name, args };
+  }
+
+  /**
+   * Returns the dependencies of a token that is not in the `providers` array, if it is available
+   * without a provider, or `null` if it is not. Tokens that are not known statically are treated
+   * as available.
+   */
+  private getUnprovidedInjectable(
+    token: ts.Declaration,
+    scope: string | null
+  ): { deps: ProviderDependency[] | null } | null {
+    if (this.reflector.isClass(token)) {
+      const meta = this.metaReader.getInjectableMetadata(token);
+      if (meta === null) {
+        // A class with a hand-written `ɵprov`, e.g. `Injector` itself.
+        const hasProv = this.reflector
+          .getMembersOfClass(token)
+          .some((member) => member.isStatic && member.name === 'ɵprov');
+        return hasProv ? { deps: null } : null;
+      }
+      return isAvailableScope(meta.providedIn, scope)
+        ? { deps: this.getClassDependencies(token) }
+        : null;
+    } else if (
+      ts.isVariableDeclaration(token) &&
+      token.initializer !== undefined
+    ) {
+      return this.getInjectionTokenScope(token.initializer, scope);
+    }
+    return { deps: null };
+  }
+
+  /**
+   * Checks the `providedIn` of a `new InjectionToken(description, options)` expression, which
+   * defaults to `'root'` when a `factory` is given.
+   */
+  private getInjectionTokenScope(
+    expression: ts.Expression,
+    scope: string | null
+  ): { deps: ProviderDependency[] | null } | null {
+    expression = unwrapExpression(expression);
+    if (
+      !ts.isNewExpression(expression) ||
+      !ts.isIdentifier(expression.expression)
+    ) {
+      return { deps: null };
+    }
+    const imp = this.reflector.getImportOfIdentifier(expression.expression);
+    if (
+      imp === null ||
+      imp.from !== CORE_MODULE ||
+      imp.name !== 'InjectionToken'
+    ) {
+      return { deps: null };
+    }
+    const options =
+      expression.arguments !== undefined && expression.arguments.length > 1
+        ? unwrapExpression(expression.arguments[1])
+        : undefined;
+    if (options === undefined) {
+      return null;
+    } else if (!ts.isObjectLiteralExpression(options)) {
+      return { deps: null };
+    }
+    const providedIn = reflectObjectLiteral(options).get('providedIn');
+    if (providedIn === undefined || !ts.isStringLiteralLike(providedIn)) {
+      return { deps: null };
+    }
+    return isAvailableScope(providedIn.text, scope) ? { deps: null } : null;
+  }
+
+  private getClassDependencies(
+    clazz: ClassDeclaration
+  ): ProviderDependency[] | null {
+    return getClassDependencies(
+      clazz,
+      this.metaReader,
+      this.reflector,
+      this.checker
+    );
+  }
+
+  private resolveToken(expression: ts.Expression): ts.Declaration | null {
+    expression = unwrapExpression(
+      tryUnwrapForwardRef(expression, this.reflector) ?? expression
+    );
+    if (
+      !ts.isIdentifier(expression) &&
+      !ts.isPropertyAccessExpression(expression)
+    ) {
+      return null;
+    }
+    return resolveDeclaration(this.checker, expression);
+  }
+}
+
+function isAvailableScope(
+  providedIn: string | null | undefined,
+  scope: string | null
+): boolean {
+  return (
+    providedIn === undefined ||
+    (providedIn !== null &&
+      (AVAILABLE_SCOPES.has(providedIn) || providedIn === scope))
+  );
+}
+
+function getTokenName(token: ts.Declaration): string {
+  const name = ts.getNameOfDeclaration(token);
+  return name !== undefined ? name.getText() : '?';
+}
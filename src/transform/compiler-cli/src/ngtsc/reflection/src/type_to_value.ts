@@ -284,9 +284,12 @@ function resolveTypeSymbols(
 function entityNameToValue(node: ts.EntityName): ts.Expression | null {
   if (ts.isQualifiedName(node)) {
     const left = entityNameToValue(node.left);
-    return left !== null ? ts.createPropertyAccess(left, node.right) : null;
+    return left !== null
+      ? ts.factory.createPropertyAccessExpression(left, node.right)
+      : null;
   } else if (ts.isIdentifier(node)) {
-    return ts.getMutableClone(node);
+    // The clone is resolved through its original node, see `resolveDeclaration`.
+    return ts.setOriginalNode(ts.factory.createIdentifier(node.text), node);
   } else {
     return null;
   }
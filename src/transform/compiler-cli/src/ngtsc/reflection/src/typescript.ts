@@ -8,6 +8,8 @@
 
 import * as ts from 'typescript';
 
+import { getDecorators, getModifiers } from '../../ts_compatibility';
+
 import {
   ClassDeclaration,
   ClassMember,
@@ -26,17 +28,33 @@ import { isNamedClassDeclaration } from './util';
  * reflector.ts implements static reflection of declarations using the TypeScript `ts.TypeChecker`.
  */
 
+/**
+ * The module specifier which imports of the core decorators and functions are reported from.
+ */
+export const CORE_MODULE = 'static-injector';
+
 export class TypeScriptReflectionHost implements ReflectionHost {
-  constructor(protected checker: ts.TypeChecker) {}
+  private coreExports: Map<ts.Symbol, string> | null = null;
+
+  /**
+   * @param coreModuleSpecifiers imports from these module specifiers are treated as imports from
+   *     `static-injector`.
+   * @param coreModuleSymbols modules whose exports are treated as the exports of
+   *     `static-injector`, so that they are recognised however they are reached (re-exports from a
+   *     barrel file, path aliases, renamed imports).
+   */
+  constructor(
+    protected checker: ts.TypeChecker,
+    private coreModuleSpecifiers: readonly string[] = [CORE_MODULE],
+    private coreModuleSymbols: readonly ts.Symbol[] = []
+  ) {}
 
   getDecoratorsOfDeclaration(declaration: DeclarationNode): Decorator[] | null {
-    if (
-      declaration.decorators === undefined ||
-      declaration.decorators.length === 0
-    ) {
+    const decorators = getDecorators(declaration);
+    if (decorators === undefined || decorators.length === 0) {
       return null;
     }
-    return declaration.decorators
+    return decorators
       .map((decorator) => this._reflectDecorator(decorator))
       .filter((dec): dec is Decorator => dec !== null);
   }
@@ -95,6 +113,11 @@ export class TypeScriptReflectionHost implements ReflectionHost {
         }
       }
 
+      // A `LazyHandle<Foo>` parameter (see `@Lazy()`) is injected with the `Foo` token.
+      if (typeNode && this.isLazyHandleType(typeNode)) {
+        typeNode = typeNode.typeArguments![0];
+      }
+
       const typeValueReference = typeToValue(typeNode, this.checker);
 
       return {
@@ -108,6 +131,23 @@ export class TypeScriptReflectionHost implements ReflectionHost {
   }
 
   getImportOfIdentifier(id: ts.Identifier): Import | null {
+    const imp = this.getImportOfIdentifierFromDeclaration(id);
+    if (imp === null || imp.from === CORE_MODULE) {
+      return imp;
+    }
+    // The name exported by `static-injector` is preferred, as a core module may rename it.
+    const coreName = this.getCoreExportName(id);
+    if (coreName !== null) {
+      return { from: CORE_MODULE, name: coreName };
+    } else if (this.coreModuleSpecifiers.includes(imp.from)) {
+      return { from: CORE_MODULE, name: imp.name };
+    }
+    return imp;
+  }
+
+  private getImportOfIdentifierFromDeclaration(
+    id: ts.Identifier
+  ): Import | null {
     const directImport = this.getDirectImportOfIdentifier(id);
     if (directImport !== null) {
       return directImport;
@@ -178,6 +218,39 @@ export class TypeScriptReflectionHost implements ReflectionHost {
     return clazz.name;
   }
 
+  /**
+   * Resolves the symbol of `id` through the type checker, and returns the name under which it is
+   * exported by one of the core modules, or `null` if it isn't.
+   */
+  private getCoreExportName(id: ts.Identifier): string | null {
+    if (this.coreModuleSymbols.length === 0) {
+      return null;
+    }
+    if (this.coreExports === null) {
+      this.coreExports = new Map();
+      for (const moduleSymbol of this.coreModuleSymbols) {
+        for (const exported of this.checker.getExportsOfModule(moduleSymbol)) {
+          const symbol = this.resolveAlias(exported);
+          // `static-injector` comes first, so its names win over the aliases of other modules.
+          if (!this.coreExports.has(symbol)) {
+            this.coreExports.set(symbol, exported.name);
+          }
+        }
+      }
+    }
+    const symbol = this.checker.getSymbolAtLocation(id);
+    if (symbol === undefined) {
+      return null;
+    }
+    return this.coreExports.get(this.resolveAlias(symbol)) ?? null;
+  }
+
+  private resolveAlias(symbol: ts.Symbol): ts.Symbol {
+    return symbol.flags & ts.SymbolFlags.Alias
+      ? this.checker.getAliasedSymbol(symbol)
+      : symbol;
+  }
+
   protected getDirectImportOfIdentifier(id: ts.Identifier): Import | null {
     const symbol = this.checker.getSymbolAtLocation(id);
 
@@ -265,6 +338,25 @@ export class TypeScriptReflectionHost implements ReflectionHost {
     };
   }
 
+  private isLazyHandleType(
+    typeNode: ts.TypeNode
+  ): typeNode is ts.TypeReferenceNode {
+    if (
+      !ts.isTypeReferenceNode(typeNode) ||
+      !ts.isIdentifier(typeNode.typeName) ||
+      typeNode.typeArguments === undefined ||
+      typeNode.typeArguments.length !== 1
+    ) {
+      return false;
+    }
+    const importDecl = this.getImportOfIdentifier(typeNode.typeName);
+    return (
+      importDecl !== null &&
+      importDecl.from === CORE_MODULE &&
+      importDecl.name === 'LazyHandle'
+    );
+  }
+
   private _reflectDecorator(node: ts.Decorator): Decorator | null {
     // Attempt to resolve the decorator expression into a reference to a concrete Identifier. The
     // expression may contain a call to a function which returns the decorator function, in which
@@ -331,9 +423,10 @@ export class TypeScriptReflectionHost implements ReflectionHost {
     }
 
     const decorators = this.getDecoratorsOfDeclaration(node);
+    const modifiers = getModifiers(node);
     const isStatic =
-      node.modifiers !== undefined &&
-      node.modifiers.some((mod) => mod.kind === ts.SyntaxKind.StaticKeyword);
+      modifiers !== undefined &&
+      modifiers.some((mod) => mod.kind === ts.SyntaxKind.StaticKeyword);
 
     return {
       node,
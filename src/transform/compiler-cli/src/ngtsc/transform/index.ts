@@ -1,2 +1,3 @@
 export * from "./src/api";
 export * from "./src/utils";
+export * from "./src/declaration";
@@ -83,6 +83,24 @@ export interface DecoratorHandler<D, A, S extends null, R> {
     handlerFlags?: HandlerFlags
   ): AnalysisOutput<A>;
 
+  /**
+   * Post-process the analysis of a decorator/class combination and record any necessary information
+   * in the larger compilation.
+   *
+   * Registration always occurs for a given decorator/class, regardless of whether analysis was
+   * performed directly or whether the analysis results were reused from the previous program.
+   */
+  register?(node: ClassDeclaration, analysis: A): void;
+
+  /**
+   * Perform resolution on the given decorator along with the result of analysis.
+   *
+   * The resolution phase happens after the entire `ts.Program` has been analyzed, and gives the
+   * `DecoratorHandler` a chance to leverage information from the whole compilation unit to enhance
+   * the `analysis` before the emit phase.
+   */
+  resolve?(node: ClassDeclaration, analysis: Readonly<A>): ResolveResult<R>;
+
   /**
    * Generate a description of the field which should be added to the class, including any
    * initialization code to be generated.
@@ -94,6 +112,19 @@ export interface DecoratorHandler<D, A, S extends null, R> {
     node: ClassDeclaration,
     analysis: Readonly<A>
   ): CompileResult | CompileResult[];
+
+  /**
+   * Generates code for the decorator using a stable, but intermediate format suitable to be
+   * published to NPM. This code is meant to be processed by the linker to achieve the final AOT
+   * compiled code.
+   *
+   * If present, this method is used if the compilation mode is configured as partial, otherwise
+   * `compileFull` is.
+   */
+  compilePartial?(
+    node: ClassDeclaration,
+    analysis: Readonly<A>
+  ): CompileResult | CompileResult[];
 }
 
 /**
@@ -129,6 +160,15 @@ export interface AnalysisOutput<A> {
   diagnostics?: ts.Diagnostic[];
 }
 
+/**
+ * The output of the resolution of a decorator/class combination, consisting of possibly an
+ * arbitrary resolution object and diagnostics about the information of the whole compilation.
+ */
+export interface ResolveResult<R> {
+  data?: Readonly<R>;
+  diagnostics?: ts.Diagnostic[];
+}
+
 /**
  * A description of the static field to add to a class, including an initialization expression
  * and a type for the .d.ts file.
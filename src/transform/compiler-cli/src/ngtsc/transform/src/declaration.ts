@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Type } from '../../../../../compiler';
+import * as ts from 'typescript';
+
+import { ImportRewriter, NoopImportRewriter } from '../../imports';
+import { ImportManager, translateType } from '../../translator';
+import {
+  createPropertyDeclaration,
+  getModifiers,
+  updateClassDeclaration,
+} from '../../ts_compatibility';
+
+import { addImports } from './utils';
+
+/**
+ * Returns the transform of the declaration file that is emitted for the source file `sf`, or
+ * `null` if the declaration file does not need to be changed.
+ */
+export type DtsTransformLookup = (
+  sf: ts.SourceFile
+) => IvyDeclarationDtsTransform | null;
+
+export function declarationTransformFactory(
+  getTransform: DtsTransformLookup,
+  importRewriter: ImportRewriter = new NoopImportRewriter(),
+  importPrefix?: string
+): ts.TransformerFactory<ts.SourceFile | ts.Bundle> {
+  return (context: ts.TransformationContext) => {
+    const transformer = new DtsTransformer(
+      context,
+      importRewriter,
+      importPrefix
+    );
+    return (fileOrBundle) => {
+      if (ts.isBundle(fileOrBundle)) {
+        // Only attempt to transform source files.
+        return fileOrBundle;
+      }
+      const transform = getTransform(
+        ts.getOriginalNode(fileOrBundle) as ts.SourceFile
+      );
+      if (transform === null) {
+        return fileOrBundle;
+      }
+      return transformer.transform(fileOrBundle, transform);
+    };
+  };
+}
+
+/**
+ * Processes .d.ts file text and adds static field declarations, with types.
+ */
+class DtsTransformer {
+  constructor(
+    private ctx: ts.TransformationContext,
+    private importRewriter: ImportRewriter,
+    private importPrefix?: string
+  ) {}
+
+  /**
+   * Transform the declaration file and add any declarations which were recorded.
+   */
+  transform(
+    sf: ts.SourceFile,
+    transform: IvyDeclarationDtsTransform
+  ): ts.SourceFile {
+    const imports = new ImportManager(this.importRewriter, this.importPrefix);
+
+    const visitor: ts.Visitor = (node: ts.Node): ts.VisitResult<ts.Node> => {
+      if (ts.isClassDeclaration(node)) {
+        return transform.transformClass(node, imports);
+      } else {
+        // Otherwise return node as is.
+        return ts.visitEachChild(node, visitor, this.ctx);
+      }
+    };
+
+    // Recursively scan through the AST and process all nodes as desired.
+    sf = ts.visitNode(sf, visitor) as ts.SourceFile;
+
+    // Add new imports for this file.
+    return addImports(imports, sf);
+  }
+}
+
+export interface IvyDeclarationField {
+  name: string;
+  type: Type;
+}
+
+/**
+ * Adds the static fields that the transformer adds to the classes of a source file to the
+ * classes of its declaration file.
+ */
+export class IvyDeclarationDtsTransform {
+  private declarationFields = new Map<
+    ts.ClassDeclaration,
+    IvyDeclarationField[]
+  >();
+
+  addFields(decl: ts.ClassDeclaration, fields: IvyDeclarationField[]): void {
+    this.declarationFields.set(decl, fields);
+  }
+
+  transformClass(
+    clazz: ts.ClassDeclaration,
+    imports: ImportManager
+  ): ts.ClassDeclaration {
+    const original = ts.getOriginalNode(clazz) as ts.ClassDeclaration;
+
+    if (!this.declarationFields.has(original)) {
+      return clazz;
+    }
+    const fields = this.declarationFields.get(original)!;
+
+    const newMembers = fields.map((decl) => {
+      const modifiers = [
+        ts.factory.createModifier(ts.SyntaxKind.StaticKeyword),
+      ];
+      const typeRef = translateType(decl.type, imports);
+      markForEmitAsSingleLine(typeRef);
+      return createPropertyDeclaration(
+        /* modifiers */ modifiers,
+        /* name */ decl.name,
+        /* questionOrExclamationToken */ undefined,
+        /* type */ typeRef,
+        /* initializer */ undefined
+      );
+    });
+
+    return updateClassDeclaration(
+      /* node */ clazz,
+      /* modifiers */ getModifiers(clazz),
+      /* name */ clazz.name,
+      /* typeParameters */ clazz.typeParameters,
+      /* heritageClauses */ clazz.heritageClauses,
+      /* members */ [...clazz.members, ...newMembers]
+    );
+  }
+}
+
+function markForEmitAsSingleLine(node: ts.Node) {
+  ts.setEmitFlags(node, ts.EmitFlags.SingleLine);
+  ts.forEachChild(node, markForEmitAsSingleLine);
+}
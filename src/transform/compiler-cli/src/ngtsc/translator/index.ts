@@ -2,4 +2,5 @@ export * from "./src/context";
 export * from "./src/translator";
 export * from "./src/typescript_ast_factory";
 export * from "./src/typescript_translator";
+export * from "./src/type_translator";
 export * from "./src/import_manager";
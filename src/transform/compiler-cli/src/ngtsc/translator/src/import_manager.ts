@@ -32,7 +32,7 @@ export class ImportManager implements ImportGenerator<ts.Identifier> {
     if (!this.specifierToIdentifier.has(moduleName)) {
       this.specifierToIdentifier.set(
         moduleName,
-        ts.createIdentifier(`${this.prefix}${this.nextIndex++}`)
+        ts.factory.createIdentifier(`${this.prefix}${this.nextIndex++}`)
       );
     }
     return this.specifierToIdentifier.get(moduleName)!;
@@ -7,6 +7,10 @@
  */
 import * as ts from "typescript";
 
+import {
+  createFunctionDeclaration,
+  createParameterDeclaration,
+} from "../../ts_compatibility";
 import {
   AstFactory,
   BinaryOperator,
@@ -77,10 +81,14 @@ export class TypeScriptAstFactory
 
   attachComments = attachComments;
 
-  createArrayLiteral = ts.createArrayLiteral;
+  createArrayLiteral = ts.factory.createArrayLiteralExpression;
 
   createAssignment(target: ts.Expression, value: ts.Expression): ts.Expression {
-    return ts.createBinary(target, ts.SyntaxKind.EqualsToken, value);
+    return ts.factory.createBinaryExpression(
+      target,
+      ts.SyntaxKind.EqualsToken,
+      value
+    );
   }
 
   createBinaryExpression(
@@ -88,7 +96,7 @@ export class TypeScriptAstFactory
     operator: BinaryOperator,
     rightOperand: ts.Expression
   ): ts.Expression {
-    return ts.createBinary(
+    return ts.factory.createBinaryExpression(
       leftOperand,
       BINARY_OPERATORS[operator],
       rightOperand
@@ -96,7 +104,7 @@ export class TypeScriptAstFactory
   }
 
   createBlock(body: ts.Statement[]): ts.Statement {
-    return ts.createBlock(body);
+    return ts.factory.createBlock(body);
   }
 
   createCallExpression(
@@ -104,7 +112,7 @@ export class TypeScriptAstFactory
     args: ts.Expression[],
     pure: boolean
   ): ts.Expression {
-    const call = ts.createCall(callee, undefined, args);
+    const call = ts.factory.createCallExpression(callee, undefined, args);
     if (pure) {
       ts.addSyntheticLeadingComment(
         call,
@@ -118,11 +126,23 @@ export class TypeScriptAstFactory
     return call;
   }
 
-  createConditional = ts.createConditional;
+  createConditional(
+    condition: ts.Expression,
+    whenTrue: ts.Expression,
+    whenFalse: ts.Expression
+  ): ts.Expression {
+    return ts.factory.createConditionalExpression(
+      condition,
+      undefined,
+      whenTrue,
+      undefined,
+      whenFalse
+    );
+  }
 
-  createElementAccess = ts.createElementAccess;
+  createElementAccess = ts.factory.createElementAccessExpression;
 
-  createExpressionStatement = ts.createExpressionStatement;
+  createExpressionStatement = ts.factory.createExpressionStatement;
 
   createFunctionDeclaration(
     functionName: string,
@@ -134,14 +154,13 @@ export class TypeScriptAstFactory
         `Invalid syntax, expected a block, but got ${ts.SyntaxKind[body.kind]}.`
       );
     }
-    return ts.createFunctionDeclaration(
-      undefined,
+    return createFunctionDeclaration(
       undefined,
       undefined,
       functionName,
       undefined,
       parameters.map((param) =>
-        ts.createParameter(undefined, undefined, undefined, param)
+        createParameterDeclaration(undefined, undefined, param)
       ),
       undefined,
       body
@@ -158,38 +177,52 @@ export class TypeScriptAstFactory
         `Invalid syntax, expected a block, but got ${ts.SyntaxKind[body.kind]}.`
       );
     }
-    return ts.createFunctionExpression(
+    return ts.factory.createFunctionExpression(
       undefined,
       undefined,
       functionName ?? undefined,
       undefined,
       parameters.map((param) =>
-        ts.createParameter(undefined, undefined, undefined, param)
+        createParameterDeclaration(undefined, undefined, param)
       ),
       undefined,
       body
     );
   }
 
-  createIdentifier = ts.createIdentifier;
+  createIdentifier = ts.factory.createIdentifier;
 
   createIfStatement(
     condition: ts.Expression,
     thenStatement: ts.Statement,
     elseStatement: ts.Statement | null
   ): ts.Statement {
-    return ts.createIf(condition, thenStatement, elseStatement ?? undefined);
+    return ts.factory.createIfStatement(
+      condition,
+      thenStatement,
+      elseStatement ?? undefined
+    );
   }
 
   createLiteral(
     value: string | number | boolean | null | undefined
   ): ts.Expression {
     if (value === undefined) {
-      return ts.createIdentifier("undefined");
+      return ts.factory.createIdentifier("undefined");
     } else if (value === null) {
-      return ts.createNull();
+      return ts.factory.createNull();
+    } else if (typeof value === "string") {
+      return ts.factory.createStringLiteral(value);
+    } else if (typeof value === "number") {
+      // Negative numbers are emitted as a prefix expression, numeric literals can't be negative.
+      return value < 0
+        ? ts.factory.createPrefixUnaryExpression(
+            ts.SyntaxKind.MinusToken,
+            ts.factory.createNumericLiteral(-value)
+          )
+        : ts.factory.createNumericLiteral(value);
     } else {
-      return ts.createLiteral(value);
+      return value ? ts.factory.createTrue() : ts.factory.createFalse();
     }
   }
 
@@ -197,30 +230,30 @@ export class TypeScriptAstFactory
     expression: ts.Expression,
     args: ts.Expression[]
   ): ts.Expression {
-    return ts.createNew(expression, undefined, args);
+    return ts.factory.createNewExpression(expression, undefined, args);
   }
 
   createObjectLiteral(
     properties: ObjectLiteralProperty<ts.Expression>[]
   ): ts.Expression {
-    return ts.createObjectLiteral(
+    return ts.factory.createObjectLiteralExpression(
       properties.map((prop) =>
-        ts.createPropertyAssignment(
+        ts.factory.createPropertyAssignment(
           prop.quoted
-            ? ts.createLiteral(prop.propertyName)
-            : ts.createIdentifier(prop.propertyName),
+            ? ts.factory.createStringLiteral(prop.propertyName)
+            : ts.factory.createIdentifier(prop.propertyName),
           prop.value
         )
       )
     );
   }
 
-  createParenthesizedExpression = ts.createParen;
+  createParenthesizedExpression = ts.factory.createParenthesizedExpression;
 
-  createPropertyAccess = ts.createPropertyAccess;
+  createPropertyAccess = ts.factory.createPropertyAccessExpression;
 
   createReturnStatement(expression: ts.Expression | null): ts.Statement {
-    return ts.createReturn(expression ?? undefined);
+    return ts.factory.createReturnStatement(expression ?? undefined);
   }
 
   createTaggedTemplate(
@@ -231,7 +264,7 @@ export class TypeScriptAstFactory
     const length = template.elements.length;
     const head = template.elements[0];
     if (length === 1) {
-      templateLiteral = ts.createNoSubstitutionTemplateLiteral(
+      templateLiteral = ts.factory.createNoSubstitutionTemplateLiteral(
         head.cooked,
         head.raw
       );
@@ -244,7 +277,9 @@ export class TypeScriptAstFactory
         if (range !== null) {
           this.setSourceMapRange(middle, range);
         }
-        spans.push(ts.createTemplateSpan(template.expressions[i - 1], middle));
+        spans.push(
+          ts.factory.createTemplateSpan(template.expressions[i - 1], middle)
+        );
       }
       // Create the tail part
       const resolvedExpression = template.expressions[length - 2];
@@ -256,28 +291,37 @@ export class TypeScriptAstFactory
       if (templatePart.range !== null) {
         this.setSourceMapRange(templateTail, templatePart.range);
       }
-      spans.push(ts.createTemplateSpan(resolvedExpression, templateTail));
+      spans.push(
+        ts.factory.createTemplateSpan(resolvedExpression, templateTail)
+      );
       // Put it all together
-      templateLiteral = ts.createTemplateExpression(
-        ts.createTemplateHead(head.cooked, head.raw),
+      templateLiteral = ts.factory.createTemplateExpression(
+        ts.factory.createTemplateHead(head.cooked, head.raw),
         spans
       );
     }
     if (head.range !== null) {
       this.setSourceMapRange(templateLiteral, head.range);
     }
-    return ts.createTaggedTemplate(tag, templateLiteral);
+    return ts.factory.createTaggedTemplateExpression(
+      tag,
+      undefined,
+      templateLiteral
+    );
   }
 
-  createThrowStatement = ts.createThrow;
+  createThrowStatement = ts.factory.createThrowStatement;
 
-  createTypeOfExpression = ts.createTypeOf;
+  createTypeOfExpression = ts.factory.createTypeOfExpression;
 
   createUnaryExpression(
     operator: UnaryOperator,
     operand: ts.Expression
   ): ts.Expression {
-    return ts.createPrefix(UNARY_OPERATORS[operator], operand);
+    return ts.factory.createPrefixUnaryExpression(
+      UNARY_OPERATORS[operator],
+      operand
+    );
   }
 
   createVariableDeclaration(
@@ -285,13 +329,14 @@ export class TypeScriptAstFactory
     initializer: ts.Expression | null,
     type: VariableDeclarationType
   ): ts.Statement {
-    return ts.createVariableStatement(
+    return ts.factory.createVariableStatement(
       undefined,
-      ts.createVariableDeclarationList(
+      ts.factory.createVariableDeclarationList(
         [
-          ts.createVariableDeclaration(
+          ts.factory.createVariableDeclaration(
             variableName,
             undefined,
+            undefined,
             initializer ?? undefined
           ),
         ],
@@ -325,24 +370,30 @@ export class TypeScriptAstFactory
   }
 }
 
-// HACK: Use this in place of `ts.createTemplateMiddle()`.
+// HACK: Use this in place of `ts.factory.createTemplateMiddle()`.
 // Revert once https://github.com/microsoft/TypeScript/issues/35374 is fixed.
 export function createTemplateMiddle(
   cooked: string,
   raw: string
 ): ts.TemplateMiddle {
-  const node: ts.TemplateLiteralLikeNode = ts.createTemplateHead(cooked, raw);
+  const node: ts.TemplateLiteralLikeNode = ts.factory.createTemplateHead(
+    cooked,
+    raw
+  );
   (node.kind as ts.SyntaxKind) = ts.SyntaxKind.TemplateMiddle;
   return node as ts.TemplateMiddle;
 }
 
-// HACK: Use this in place of `ts.createTemplateTail()`.
+// HACK: Use this in place of `ts.factory.createTemplateTail()`.
 // Revert once https://github.com/microsoft/TypeScript/issues/35374 is fixed.
 export function createTemplateTail(
   cooked: string,
   raw: string
 ): ts.TemplateTail {
-  const node: ts.TemplateLiteralLikeNode = ts.createTemplateHead(cooked, raw);
+  const node: ts.TemplateLiteralLikeNode = ts.factory.createTemplateHead(
+    cooked,
+    raw
+  );
   (node.kind as ts.SyntaxKind) = ts.SyntaxKind.TemplateTail;
   return node as ts.TemplateTail;
 }
@@ -0,0 +1,331 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import * as ts from 'typescript';
+
+/*
+ * TypeScript 4.8 moved decorators into the `modifiers` of a node and TypeScript 5 removed the
+ * `decorators` property and the deprecated node factory signatures. The helpers below accept the
+ * 4.8+ signatures and fall back to the older ones, so the transformer works with both.
+ */
+
+/** Whether the current TypeScript version is after 4.8. */
+const IS_AFTER_TS_48 = isAfterVersion(4, 8);
+
+/**
+ * Decorators and modifiers as they are passed to the node factory since TypeScript 4.8, where
+ * decorators are part of the `modifiers` array.
+ */
+export type ModifierLike = ts.Modifier | ts.Decorator;
+
+/** Type of `ts.factory.updateClassDeclaration` since TypeScript 4.8. */
+type Ts48UpdateClassDeclarationFn = (
+  node: ts.ClassDeclaration,
+  modifiers: readonly ModifierLike[] | undefined,
+  name: ts.Identifier | undefined,
+  typeParameters: readonly ts.TypeParameterDeclaration[] | undefined,
+  heritageClauses: readonly ts.HeritageClause[] | undefined,
+  members: readonly ts.ClassElement[]
+) => ts.ClassDeclaration;
+
+/**
+ * Updates a `ts.ClassDeclaration` declaration.
+ */
+export const updateClassDeclaration: Ts48UpdateClassDeclarationFn =
+  IS_AFTER_TS_48
+    ? (ts.factory.updateClassDeclaration as any)
+    : (node, modifiers, name, typeParameters, heritageClauses, members) =>
+        (ts.factory.updateClassDeclaration as any)(
+          node,
+          ...splitModifiers(modifiers),
+          name,
+          typeParameters,
+          heritageClauses,
+          members
+        );
+
+/** Type of `ts.factory.updateParameterDeclaration` since TypeScript 4.8. */
+type Ts48UpdateParameterDeclarationFn = (
+  node: ts.ParameterDeclaration,
+  modifiers: readonly ModifierLike[] | undefined,
+  dotDotDotToken: ts.DotDotDotToken | undefined,
+  name: string | ts.BindingName,
+  questionToken: ts.QuestionToken | undefined,
+  type: ts.TypeNode | undefined,
+  initializer: ts.Expression | undefined
+) => ts.ParameterDeclaration;
+
+/**
+ * Updates a `ts.ParameterDeclaration` declaration.
+ */
+export const updateParameterDeclaration: Ts48UpdateParameterDeclarationFn =
+  IS_AFTER_TS_48
+    ? (ts.factory.updateParameterDeclaration as any)
+    : (
+        node,
+        modifiers,
+        dotDotDotToken,
+        name,
+        questionToken,
+        type,
+        initializer
+      ) =>
+        (ts.factory.updateParameterDeclaration as any)(
+          node,
+          ...splitModifiers(modifiers),
+          dotDotDotToken,
+          name,
+          questionToken,
+          type,
+          initializer
+        );
+
+/** Type of `ts.factory.createParameterDeclaration` since TypeScript 4.8. */
+type Ts48CreateParameterDeclarationFn = (
+  modifiers: readonly ModifierLike[] | undefined,
+  dotDotDotToken: ts.DotDotDotToken | undefined,
+  name: string | ts.BindingName,
+  questionToken?: ts.QuestionToken | undefined,
+  type?: ts.TypeNode | undefined,
+  initializer?: ts.Expression | undefined
+) => ts.ParameterDeclaration;
+
+/**
+ * Creates a `ts.ParameterDeclaration` declaration.
+ */
+export const createParameterDeclaration: Ts48CreateParameterDeclarationFn =
+  IS_AFTER_TS_48
+    ? (ts.factory.createParameterDeclaration as any)
+    : (modifiers, dotDotDotToken, name, questionToken, type, initializer) =>
+        (ts.factory.createParameterDeclaration as any)(
+          ...splitModifiers(modifiers),
+          dotDotDotToken,
+          name,
+          questionToken,
+          type,
+          initializer
+        );
+
+/** Type of `ts.factory.updateConstructorDeclaration` since TypeScript 4.8. */
+type Ts48UpdateConstructorDeclarationFn = (
+  node: ts.ConstructorDeclaration,
+  modifiers: readonly ModifierLike[] | undefined,
+  parameters: readonly ts.ParameterDeclaration[],
+  body: ts.Block | undefined
+) => ts.ConstructorDeclaration;
+
+/**
+ * Updates a `ts.ConstructorDeclaration` declaration.
+ */
+export const updateConstructorDeclaration: Ts48UpdateConstructorDeclarationFn =
+  IS_AFTER_TS_48
+    ? (ts.factory.updateConstructorDeclaration as any)
+    : (node, modifiers, parameters, body) =>
+        (ts.factory.updateConstructorDeclaration as any)(
+          node,
+          ...splitModifiers(modifiers),
+          parameters,
+          body
+        );
+
+/** Type of `ts.factory.createPropertyDeclaration` since TypeScript 4.8. */
+type Ts48CreatePropertyDeclarationFn = (
+  modifiers: readonly ModifierLike[] | undefined,
+  name: string | ts.PropertyName,
+  questionOrExclamationToken:
+    | ts.QuestionToken
+    | ts.ExclamationToken
+    | undefined,
+  type: ts.TypeNode | undefined,
+  initializer: ts.Expression | undefined
+) => ts.PropertyDeclaration;
+
+/**
+ * Creates a `ts.PropertyDeclaration` declaration.
+ */
+export const createPropertyDeclaration: Ts48CreatePropertyDeclarationFn =
+  IS_AFTER_TS_48
+    ? (ts.factory.createPropertyDeclaration as any)
+    : (modifiers, name, questionOrExclamationToken, type, initializer) =>
+        (ts.factory.createPropertyDeclaration as any)(
+          ...splitModifiers(modifiers),
+          name,
+          questionOrExclamationToken,
+          type,
+          initializer
+        );
+
+/** Type of `ts.factory.createFunctionDeclaration` since TypeScript 4.8. */
+type Ts48CreateFunctionDeclarationFn = (
+  modifiers: readonly ModifierLike[] | undefined,
+  asteriskToken: ts.AsteriskToken | undefined,
+  name: string | ts.Identifier | undefined,
+  typeParameters: readonly ts.TypeParameterDeclaration[] | undefined,
+  parameters: readonly ts.ParameterDeclaration[],
+  type: ts.TypeNode | undefined,
+  body: ts.Block | undefined
+) => ts.FunctionDeclaration;
+
+/**
+ * Creates a `ts.FunctionDeclaration` declaration.
+ */
+export const createFunctionDeclaration: Ts48CreateFunctionDeclarationFn =
+  IS_AFTER_TS_48
+    ? (ts.factory.createFunctionDeclaration as any)
+    : (
+        modifiers,
+        asteriskToken,
+        name,
+        typeParameters,
+        parameters,
+        type,
+        body
+      ) =>
+        (ts.factory.createFunctionDeclaration as any)(
+          ...splitModifiers(modifiers),
+          asteriskToken,
+          name,
+          typeParameters,
+          parameters,
+          type,
+          body
+        );
+
+/** Type of `ts.factory.createIndexSignature` since TypeScript 4.8. */
+type Ts48CreateIndexSignatureFn = (
+  modifiers: readonly ModifierLike[] | undefined,
+  parameters: readonly ts.ParameterDeclaration[],
+  type: ts.TypeNode
+) => ts.IndexSignatureDeclaration;
+
+/**
+ * Creates a `ts.IndexSignatureDeclaration` declaration.
+ */
+export const createIndexSignature: Ts48CreateIndexSignatureFn = IS_AFTER_TS_48
+  ? (ts.factory.createIndexSignature as any)
+  : (modifiers, parameters, type) =>
+      (ts.factory.createIndexSignature as any)(
+        ...splitModifiers(modifiers),
+        parameters,
+        type
+      );
+
+/** Type of `ts.factory.createImportDeclaration` since TypeScript 4.8. */
+type Ts48CreateImportDeclarationFn = (
+  modifiers: readonly ts.Modifier[] | undefined,
+  importClause: ts.ImportClause | undefined,
+  moduleSpecifier: ts.Expression
+) => ts.ImportDeclaration;
+
+/**
+ * Creates a `ts.ImportDeclaration` declaration.
+ */
+export const createImportDeclaration: Ts48CreateImportDeclarationFn =
+  IS_AFTER_TS_48
+    ? (ts.factory.createImportDeclaration as any)
+    : (modifiers, importClause, moduleSpecifier) =>
+        (ts.factory.createImportDeclaration as any)(
+          undefined,
+          modifiers,
+          importClause,
+          moduleSpecifier
+        );
+
+/**
+ * Gets the decorators that have been applied to a node.
+ */
+export const getDecorators: (
+  node: ts.Node
+) => readonly ts.Decorator[] | undefined = IS_AFTER_TS_48
+  ? (node) =>
+      (ts as any).canHaveDecorators(node)
+        ? (ts as any).getDecorators(node)
+        : undefined
+  : (node) => (node as any).decorators;
+
+/**
+ * Gets the modifiers that have been set on a node.
+ */
+export const getModifiers: (
+  node: ts.Node
+) => readonly ts.Modifier[] | undefined = IS_AFTER_TS_48
+  ? (node) =>
+      (ts as any).canHaveModifiers(node)
+        ? (ts as any).getModifiers(node)
+        : undefined
+  : (node) => (node as any).modifiers;
+
+/**
+ * Combines an optional array of decorators with an optional array of modifiers into a single
+ * `ts.ModifierLike` array. Used in version of TypeScript after 4.8 where the `decorators` and
+ * `modifiers` arrays have been combined.
+ */
+export function combineModifiers(
+  decorators: readonly ts.Decorator[] | undefined,
+  modifiers: readonly ModifierLike[] | undefined
+): ModifierLike[] | undefined {
+  const hasDecorators = decorators?.length;
+  const hasModifiers = modifiers?.length;
+
+  // This function can be written more compactly, but it is somewhat performance-sensitive
+  // so we have some additional logic only to create new arrays when necessary.
+  if (hasDecorators && hasModifiers) {
+    return [...decorators, ...modifiers];
+  }
+
+  if (hasDecorators && !hasModifiers) {
+    return decorators as ts.Decorator[];
+  }
+
+  if (hasModifiers && !hasDecorators) {
+    return modifiers as ModifierLike[];
+  }
+
+  return undefined;
+}
+
+/**
+ * Splits a `ts.ModifierLike` array into the separate decorators and modifiers arrays that are
+ * expected by the node factory before TypeScript 4.8.
+ */
+function splitModifiers(
+  allModifiers: readonly ModifierLike[] | undefined
+): [ts.Decorator[] | undefined, ts.Modifier[] | undefined] {
+  if (!allModifiers) {
+    return [undefined, undefined];
+  }
+
+  const decorators: ts.Decorator[] = [];
+  const modifiers: ts.Modifier[] = [];
+
+  for (const current of allModifiers) {
+    if (ts.isDecorator(current)) {
+      decorators.push(current);
+    } else {
+      modifiers.push(current as ts.Modifier);
+    }
+  }
+
+  return [
+    decorators.length ? decorators : undefined,
+    modifiers.length ? modifiers : undefined,
+  ];
+}
+
+/** Checks whether the current TypeScript version is after a particular major/minor version. */
+function isAfterVersion(targetMajor: number, targetMinor: number): boolean {
+  const [major, minor] = ts.versionMajorMinor
+    .split('.')
+    .map((part) => parseInt(part));
+
+  if (major < targetMajor) {
+    return false;
+  }
+
+  return major === targetMajor ? minor >= targetMinor : true;
+}
@@ -1,5 +1,16 @@
 export * from './src/injectable_compiler_2';
+export * from './src/injector_compiler';
 export * from './src/render3/r3_factory';
 export * from './src/output/output_ast';
 export * from './src/render3/util';
 export * from './src/parse_util';
+export {
+  R3DeclareDependencyMetadata,
+  R3DeclareFactoryMetadata,
+  R3DeclareInjectableMetadata,
+  R3DeclareInjectorMetadata,
+  R3PartialDeclaration,
+} from './src/render3/partial/api';
+export * from './src/render3/partial/factory';
+export * from './src/render3/partial/injectable';
+export * from './src/render3/partial/injector';
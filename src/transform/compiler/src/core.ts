@@ -12,10 +12,15 @@
 export const enum InjectFlags {
   Default = 0,
 
+  /** Stop the lookup at the nearest host boundary injector. */
+  Host = 1 << 0,
+
   /** Don't descend into ancestors of the node requesting injection. */
   Self = 1 << 1,
   /** Skip the node that is requesting injection. */
   SkipSelf = 1 << 2,
   /** Inject `defaultValue` instead if token not found. */
   Optional = 1 << 3,
+  /** Inject a function which resolves the token when it is first called. */
+  Lazy = 1 << 4,
 }
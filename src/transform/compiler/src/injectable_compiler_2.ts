@@ -34,6 +34,12 @@ export interface R3InjectableMetadata {
   useExisting?: R3ProviderExpression;
   useValue?: R3ProviderExpression;
   deps?: R3DependencyMetadata[];
+  lifetime?: o.Expression;
+  /**
+   * The type of `providedIn` in the type of `ɵprov`, e.g. the literal type of a scope name. The
+   * type argument is left out when `providedIn` cannot be expressed as a type.
+   */
+  providedInType?: o.Type;
 }
 
 /**
@@ -174,6 +180,7 @@ export function compileInjectable(
     token: o.Expression;
     factory: o.Expression;
     providedIn: o.Expression;
+    lifetime: o.Expression;
   }>();
   injectableProps.set("token", token);
   injectableProps.set("factory", result.expression);
@@ -188,6 +195,10 @@ export function compileInjectable(
     );
   }
 
+  if (meta.lifetime !== undefined) {
+    injectableProps.set("lifetime", meta.lifetime);
+  }
+
   const expression = o
     .importExpr(Identifiers.ɵɵdefineInjectable)
     .callFn([injectableProps.toLiteralMap()], undefined, true);
@@ -199,10 +210,14 @@ export function compileInjectable(
 }
 
 export function createInjectableType(meta: R3InjectableMetadata) {
+  const typeParams: o.Type[] = [
+    typeWithParameters(meta.type.type, meta.typeArgumentCount),
+  ];
+  if (meta.providedInType !== undefined) {
+    typeParams.push(meta.providedInType);
+  }
   return new o.ExpressionType(
-    o.importExpr(Identifiers.InjectableDeclaration, [
-      typeWithParameters(meta.type.type, meta.typeArgumentCount),
-    ])
+    o.importExpr(Identifiers.InjectableDeclaration, typeParams)
   );
 }
 
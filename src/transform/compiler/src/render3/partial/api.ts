@@ -42,7 +42,7 @@ export interface R3DeclareInjectorMetadata extends R3PartialDeclaration {
   /**
    * The list of imports into the injector.
    */
-  imports?: o.Expression[];
+  imports?: o.Expression;
 }
 
 /**
@@ -122,6 +122,11 @@ export interface R3DeclareInjectableMetadata extends R3PartialDeclaration {
    * `useFactory`.
    */
   deps?: R3DeclareDependencyMetadata[];
+
+  /**
+   * If provided, an expression that evaluates to the lifetime of the instances of this injectable.
+   */
+  lifetime?: o.Expression;
 }
 
 /**
@@ -149,6 +154,12 @@ export interface R3DeclareDependencyMetadata {
    */
   optional?: boolean;
 
+  /**
+   * Whether the dependency has an @Host qualifier.
+   * Default: false,
+   */
+  host?: boolean;
+
   /**
    * Whether the dependency has an @Self qualifier.
    * Default: false,
@@ -160,6 +171,12 @@ export interface R3DeclareDependencyMetadata {
    * Default: false,
    */
   skipSelf?: boolean;
+
+  /**
+   * Whether the dependency has an @Lazy qualifier.
+   * Default: false,
+   */
+  lazy?: boolean;
 }
 
 /**
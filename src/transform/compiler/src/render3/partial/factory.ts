@@ -0,0 +1,42 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as o from '../../output/output_ast';
+import { createFactoryType, R3FactoryMetadata } from '../r3_factory';
+import { Identifiers as R3 } from '../r3_identifiers';
+import { R3CompiledExpression } from '../util';
+import { DefinitionMap } from '../view/util';
+
+import { R3DeclareFactoryMetadata } from './api';
+import {
+  MINIMUM_PARTIAL_LINKER_VERSION,
+  PARTIAL_DECLARATION_VERSION,
+} from './injectable';
+import { compileDependencies } from './util';
+
+/**
+ * Compile a factory declaration defined by the `R3FactoryMetadata`.
+ */
+export function compileDeclareFactoryFunction(
+  meta: R3FactoryMetadata
+): R3CompiledExpression {
+  const definitionMap = new DefinitionMap<R3DeclareFactoryMetadata>();
+  definitionMap.set('minVersion', o.literal(MINIMUM_PARTIAL_LINKER_VERSION));
+  definitionMap.set('version', o.literal(PARTIAL_DECLARATION_VERSION));
+  definitionMap.set('ngImport', o.importExpr(R3.core));
+  definitionMap.set('type', meta.internalType);
+  definitionMap.set('deps', compileDependencies(meta.deps));
+  definitionMap.set('target', o.literal(meta.target));
+
+  return {
+    expression: o
+      .importExpr(R3.declareFactory)
+      .callFn([definitionMap.toLiteralMap()]),
+    statements: [],
+    type: createFactoryType(meta),
+  };
+}
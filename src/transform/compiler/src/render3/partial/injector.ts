@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import {
+  createInjectorType,
+  R3InjectorMetadata,
+} from '../../injector_compiler';
+import * as o from '../../output/output_ast';
+import { Identifiers as R3 } from '../r3_identifiers';
+import { R3CompiledExpression } from '../util';
+import { DefinitionMap } from '../view/util';
+
+import { R3DeclareInjectorMetadata } from './api';
+import {
+  MINIMUM_PARTIAL_LINKER_VERSION,
+  PARTIAL_DECLARATION_VERSION,
+} from './injectable';
+
+/**
+ * Compile an Injector declaration defined by the `R3InjectorMetadata`.
+ */
+export function compileDeclareInjectorFromMetadata(
+  meta: R3InjectorMetadata
+): R3CompiledExpression {
+  const definitionMap = createInjectorDefinitionMap(meta);
+
+  const expression = o
+    .importExpr(R3.declareInjector)
+    .callFn([definitionMap.toLiteralMap()]);
+  const type = createInjectorType(meta);
+
+  return { expression, type, statements: [] };
+}
+
+/**
+ * Gathers the declaration fields for an Injector into a `DefinitionMap`.
+ */
+function createInjectorDefinitionMap(
+  meta: R3InjectorMetadata
+): DefinitionMap<R3DeclareInjectorMetadata> {
+  const definitionMap = new DefinitionMap<R3DeclareInjectorMetadata>();
+
+  definitionMap.set('minVersion', o.literal(MINIMUM_PARTIAL_LINKER_VERSION));
+  definitionMap.set('version', o.literal(PARTIAL_DECLARATION_VERSION));
+  definitionMap.set('ngImport', o.importExpr(R3.core));
+  definitionMap.set('type', meta.internalType);
+  definitionMap.set('providers', meta.providers);
+  definitionMap.set('imports', meta.imports);
+
+  return definitionMap;
+}
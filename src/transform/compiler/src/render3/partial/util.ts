@@ -5,8 +5,13 @@
  * Use of this source code is governed by an MIT-style license that can be
  * found in the LICENSE file at https://angular.io/license
  */
-import * as o from "../../output/output_ast";
-import { Identifiers } from "../r3_identifiers";
+import { R3ProviderExpression } from '../../injectable_compiler_2';
+import * as o from '../../output/output_ast';
+import { R3DependencyMetadata } from '../r3_factory';
+import { Identifiers } from '../r3_identifiers';
+import { DefinitionMap } from '../view/util';
+
+import { R3DeclareDependencyMetadata } from './api';
 
 /**
  * Generate an expression that has the given `expr` wrapped in the following form:
@@ -20,3 +25,60 @@ export function generateForwardRef(expr: o.Expression): o.Expression {
     .importExpr(Identifiers.forwardRef)
     .callFn([o.fn([], [new o.ReturnStatement(expr)])]);
 }
+
+/**
+ * Converts an `R3ProviderExpression` to an `Expression`, wrapping it in a `forwardRef()` call if
+ * it refers to something that may not have been defined yet.
+ */
+export function convertFromMaybeForwardRefExpression({
+  expression,
+  isForwardRef,
+}: R3ProviderExpression): o.Expression {
+  return isForwardRef ? generateForwardRef(expression) : expression;
+}
+
+/**
+ * Creates an array literal of the dependencies of a factory, or `'invalid'`/`null` when the
+ * dependencies cannot be resolved or are inherited.
+ */
+export function compileDependencies(
+  deps: R3DependencyMetadata[] | 'invalid' | null
+): o.LiteralExpr | o.LiteralArrayExpr {
+  if (deps === 'invalid') {
+    // The `deps` can be set to the string "invalid"  by the `unwrapConstructorDependencies()`
+    // function, which tries to convert `ConstructorDeps` into `R3DependencyMetadata[]`.
+    return o.literal('invalid');
+  } else if (deps === null) {
+    return o.literal(null);
+  } else {
+    return o.literalArr(deps.map(compileDependency));
+  }
+}
+
+/**
+ * Creates the object literal of a dependency, in the shape of `R3DeclareDependencyMetadata`.
+ * Flags that are `false` are left out.
+ */
+export function compileDependency(dep: R3DependencyMetadata): o.LiteralMapExpr {
+  const depMeta = new DefinitionMap<R3DeclareDependencyMetadata>();
+  depMeta.set('token', dep.token);
+  if (dep.attributeNameType !== null) {
+    depMeta.set('attribute', o.literal(true));
+  }
+  if (dep.host) {
+    depMeta.set('host', o.literal(true));
+  }
+  if (dep.optional) {
+    depMeta.set('optional', o.literal(true));
+  }
+  if (dep.self) {
+    depMeta.set('self', o.literal(true));
+  }
+  if (dep.skipSelf) {
+    depMeta.set('skipSelf', o.literal(true));
+  }
+  if (dep.lazy) {
+    depMeta.set('lazy', o.literal(true));
+  }
+  return depMeta.toLiteralMap();
+}
@@ -98,11 +98,23 @@ export interface R3DependencyMetadata {
    */
   attributeNameType: outputAst.Expression | null;
 
+  /**
+   * If an @Inject decorator is present, this is the type of the token in the declaration file: a
+   * type query of the token if it can be referenced from there, or the unknown type otherwise.
+   * Otherwise the token is the type of the parameter and this is not set.
+   */
+  tokenType?: outputAst.Expression;
+
   /**
    * Whether the dependency has an @Optional qualifier.
    */
   optional: boolean;
 
+  /**
+   * Whether the dependency has an @Host qualifier.
+   */
+  host: boolean;
+
   /**
    * Whether the dependency has an @Self qualifier.
    */
@@ -112,6 +124,11 @@ export interface R3DependencyMetadata {
    * Whether the dependency has an @SkipSelf qualifier.
    */
   skipSelf: boolean;
+
+  /**
+   * Whether the dependency has an @Lazy qualifier.
+   */
+  lazy: boolean;
 }
 
 /**
@@ -227,6 +244,30 @@ export function compileFactoryFunction(
       .callFn([], /* sourceSpan */ undefined, /* pure */ true);
   }
 
+  const factoryDeps = isDelegatedFactoryMetadata(meta)
+    ? meta.delegateDeps
+    : isExpressionFactoryMetadata(meta) || !Array.isArray(meta.deps)
+    ? []
+    : meta.deps;
+  const eagerTokens = getEagerDependencyTokens(factoryDeps);
+  if (eagerTokens.length > 0) {
+    // Attach the dependencies to the factory, so that the injector can create the async providers
+    // among them before calling it: `ɵɵfactoryDeps(factory, function () { return [Dep1]; })`
+    factoryFn = outputAst
+      .importExpr(R3.factoryDeps)
+      .callFn(
+        [
+          factoryFn,
+          outputAst.fn(
+            [],
+            [new outputAst.ReturnStatement(outputAst.literalArr(eagerTokens))]
+          ),
+        ],
+        /* sourceSpan */ undefined,
+        /* pure */ true
+      );
+  }
+
   return {
     expression: factoryFn,
     statements: [],
@@ -234,6 +275,24 @@ export function compileFactoryFunction(
   };
 }
 
+/**
+ * The tokens that a factory injects from the injector it is called in, as opposed to the lazy
+ * dependencies and the ones that skip it.
+ */
+function getEagerDependencyTokens(
+  deps: R3DependencyMetadata[]
+): outputAst.Expression[] {
+  return deps
+    .filter(
+      (dep) =>
+        dep.token !== null &&
+        dep.attributeNameType === null &&
+        !dep.skipSelf &&
+        !dep.lazy
+    )
+    .map((dep) => dep.token!);
+}
+
 export function createFactoryType(meta: R3FactoryMetadata) {
   const ctorDepsType =
     meta.deps !== null && meta.deps !== 'invalid'
@@ -268,9 +327,11 @@ function compileInjectDependency(
     // Build up the injection flags according to the metadata.
     const flags =
       InjectFlags.Default |
+      (dep.host ? InjectFlags.Host : 0) |
       (dep.self ? InjectFlags.Self : 0) |
       (dep.skipSelf ? InjectFlags.SkipSelf : 0) |
-      (dep.optional ? InjectFlags.Optional : 0);
+      (dep.optional ? InjectFlags.Optional : 0) |
+      (dep.lazy ? InjectFlags.Lazy : 0);
 
     // If this dependency is optional or otherwise has non-default flags, then additional
     // parameters describing how to inject the dependency must be passed to the inject function
@@ -318,6 +379,14 @@ function createCtorDepType(
     value: outputAst.Expression;
   }[] = [];
 
+  if (dep.tokenType !== undefined) {
+    entries.push({
+      key: 'token',
+      value: dep.tokenType,
+      quoted: false,
+    });
+  }
+
   if (dep.optional) {
     entries.push({
       key: 'optional',
@@ -326,6 +395,14 @@ function createCtorDepType(
     });
   }
 
+  if (dep.host) {
+    entries.push({
+      key: 'host',
+      value: outputAst.literal(true),
+      quoted: false,
+    });
+  }
+
   if (dep.self) {
     entries.push({
       key: 'self',
@@ -340,6 +417,13 @@ function createCtorDepType(
       quoted: false,
     });
   }
+  if (dep.lazy) {
+    entries.push({
+      key: 'lazy',
+      value: outputAst.literal(true),
+      quoted: false,
+    });
+  }
 
   return entries.length > 0 ? outputAst.literalMap(entries) : null;
 }
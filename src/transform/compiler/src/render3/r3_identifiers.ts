@@ -10,6 +10,8 @@ import * as o from '../output/output_ast';
 const CORE = 'static-injector';
 
 export class Identifiers {
+  static core: o.ExternalReference = { name: null, moduleName: CORE };
+
   static inject: o.ExternalReference = { name: 'ɵɵinject', moduleName: CORE };
 
   static directiveInject: o.ExternalReference = {
@@ -44,13 +46,43 @@ export class Identifiers {
     moduleName: CORE,
   };
 
+  static defineInjector: o.ExternalReference = {
+    name: 'ɵɵdefineInjector',
+    moduleName: CORE,
+  };
+
+  static InjectorDeclaration: o.ExternalReference = {
+    name: 'ɵɵInjectorDeclaration',
+    moduleName: CORE,
+  };
+
   static FactoryDeclaration: o.ExternalReference = {
     name: 'ɵɵFactoryDeclaration',
     moduleName: CORE,
   };
 
+  static declareInjectable: o.ExternalReference = {
+    name: 'ɵɵngDeclareInjectable',
+    moduleName: CORE,
+  };
+
+  static declareInjector: o.ExternalReference = {
+    name: 'ɵɵngDeclareInjector',
+    moduleName: CORE,
+  };
+
+  static declareFactory: o.ExternalReference = {
+    name: 'ɵɵngDeclareFactory',
+    moduleName: CORE,
+  };
+
   static getInheritedFactory: o.ExternalReference = {
     name: 'ɵɵgetInheritedFactory',
     moduleName: CORE,
   };
+
+  static factoryDeps: o.ExternalReference = {
+    name: 'ɵɵfactoryDeps',
+    moduleName: CORE,
+  };
 }
@@ -1 +1,3 @@
 export * from "./injectable-transform";
+export * from "./analyze-program";
+export * from "./linker";
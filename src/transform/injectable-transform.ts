@@ -1,16 +1,45 @@
-import ts, { ClassDeclaration, factory, SourceFile } from 'typescript';
+import ts, { ClassDeclaration, SourceFile } from 'typescript';
 import { InjectableDecoratorHandler } from './compiler-cli/src/ngtsc/annotations/src/injectable';
+import { InjectorModuleDecoratorHandler } from './compiler-cli/src/ngtsc/annotations/src/injector_module';
+import {
+  InjectableCycleAnalyzer,
+  InjectableCycleOptions,
+} from './compiler-cli/src/ngtsc/cycles';
+import { isFatalDiagnosticError } from './compiler-cli/src/ngtsc/diagnostics';
 import { NoopImportRewriter } from './compiler-cli/src/ngtsc/imports';
 import {
+  CompoundMetadataReader,
+  DtsMetadataReader,
+  LocalMetadataRegistry,
+  MetadataReader,
+} from './compiler-cli/src/ngtsc/metadata';
+import { InjectorCreateChecker } from './compiler-cli/src/ngtsc/providers';
+import {
+  CORE_MODULE,
   Decorator,
   TypeScriptReflectionHost,
 } from './compiler-cli/src/ngtsc/reflection';
-import { addImports, CompileResult } from './compiler-cli/src/ngtsc/transform';
+import {
+  addImports,
+  CompileResult,
+  declarationTransformFactory,
+  DecoratorHandler,
+  IvyDeclarationDtsTransform,
+} from './compiler-cli/src/ngtsc/transform';
 import {
   ImportManager,
   translateExpression,
   translateStatement,
 } from './compiler-cli/src/ngtsc/translator';
+import {
+  combineModifiers,
+  createPropertyDeclaration,
+  getDecorators,
+  getModifiers,
+  updateClassDeclaration,
+  updateConstructorDeclaration,
+  updateParameterDeclaration,
+} from './compiler-cli/src/ngtsc/ts_compatibility';
 import { nodeIteration } from './node-Iteration';
 const NO_DECORATORS = new Set<ts.Decorator>();
 interface ClassMetadata {
@@ -21,8 +50,67 @@ interface ClassMetadata {
   /** 要被移除的装饰器 */
   decorator: ts.Decorator;
 }
+/** A decorated class together with the fields it was compiled to. */
+interface ClassCompilation {
+  node: ts.ClassDeclaration;
+  decorator: ts.Decorator;
+  results: CompileResult[];
+}
+/** The analyzed classes of a source file together with the diagnostics of their analysis. */
+interface FileAnalysis {
+  classes: ClassAnalysis[];
+  diagnostics: ts.Diagnostic[];
+}
+/** A decorated class together with the handler that detected it and the result of `analyze`. */
+export interface ClassAnalysis {
+  node: ts.ClassDeclaration & { name: ts.Identifier };
+  handler: DecoratorHandler<Decorator, unknown, null, unknown>;
+  decorator: ts.Decorator;
+  analysis: unknown;
+}
 export interface InjectableTransformerFactoryOptions {
   strictCtorDeps?: boolean;
+  /**
+   * Module specifiers that are accepted in place of `static-injector`, e.g. a package that
+   * re-exports its decorators. Re-exports of `static-injector` and of these modules are also
+   * resolved through the type checker.
+   */
+  coreModules?: string[];
+  /**
+   * `'partial'` emits `ɵɵngDeclareInjectable`/`ɵɵngDeclareFactory`/`ɵɵngDeclareInjector`
+   * declarations instead of the compiled definitions, for libraries that are published to npm.
+   * They are turned into full definitions by the linker (`linkSource`/`createLinkerTransformer`)
+   * when the app is built. Unlinked declarations still work at runtime, but their dependencies are
+   * evaluated when the class is defined, so they must not reference classes declared later.
+   * Defaults to `'full'`.
+   */
+  compilationMode?: 'full' | 'partial';
+  /**
+   * Checks the dependencies of the injectables against the metadata of the injectables they
+   * depend on, including those of other packages that are read from the `ɵprov`/`ɵfac` fields of
+   * their `.d.ts` files:
+   * - an `@InjectorModule` provider class with constructor parameters that is not injectable
+   * - a dependency that is provided in a narrower scope, e.g. `'request'` in a `'root'` injectable
+   * - a dependency on a class with constructor parameters that is not injectable
+   */
+  checkDependencies?: boolean;
+  /**
+   * Checks the `Injector.create()` calls whose `providers` array is statically analysable, and
+   * reports the tokens that are injected by the providers (or by their dependencies) but are
+   * neither provided nor available through `providedIn: 'root'`. Calls with a `parent` are
+   * skipped.
+   */
+  checkProviders?: boolean;
+  /**
+   * Reports the cycles in the constructor dependencies of the injectables, naming every class and
+   * file of the cycle. An object configures which dependencies break a cycle.
+   */
+  checkCycles?: boolean | InjectableCycleOptions;
+  /**
+   * Called with the diagnostics of a source file after it has been transformed. Classes with
+   * errors are left unchanged, the rest of the file is still emitted.
+   */
+  onDiagnostics?: (diagnostics: ts.Diagnostic[], sf: ts.SourceFile) => void;
 }
 export function createTransformer(
   program: ts.Program,
@@ -34,23 +122,130 @@ export function createTransformer(
 export class InjectableTransformerFactory {
   typeChecker: ts.TypeChecker;
   reflectionHost: TypeScriptReflectionHost;
-  handler: InjectableDecoratorHandler;
+  handlers: DecoratorHandler<Decorator, unknown, null, unknown>[];
+  metaReader: MetadataReader;
+  private metaRegistry = new LocalMetadataRegistry();
+  private injectorCreateChecker: InjectorCreateChecker;
+  private cycleAnalyzer: InjectableCycleAnalyzer;
+  private analysisMap = new Map<ts.SourceFile, FileAnalysis>();
+  private diagnosticsMap = new Map<ts.SourceFile, ts.Diagnostic[]>();
+  private compilationMap = new Map<ts.SourceFile, ClassCompilation[]>();
 
   constructor(
     private program: ts.Program,
     private options: InjectableTransformerFactoryOptions = {}
   ) {
     this.typeChecker = this.program.getTypeChecker();
-    this.reflectionHost = new TypeScriptReflectionHost(this.typeChecker);
-    this.handler = new InjectableDecoratorHandler(
+    const coreModules = [CORE_MODULE, ...(this.options.coreModules || [])];
+    this.reflectionHost = new TypeScriptReflectionHost(
+      this.typeChecker,
+      coreModules,
+      this.resolveModuleSymbols(coreModules)
+    );
+    this.metaReader = new CompoundMetadataReader([
+      {
+        // The source file of a class is analyzed on demand, to register its metadata.
+        getInjectableMetadata: (node) => {
+          if (!node.getSourceFile().isDeclarationFile) {
+            this.analyzeFile(node.getSourceFile());
+          }
+          return this.metaRegistry.getInjectableMetadata(node);
+        },
+      },
+      new DtsMetadataReader(this.typeChecker, this.reflectionHost),
+    ]);
+    this.injectorCreateChecker = new InjectorCreateChecker(
+      this.typeChecker,
+      this.reflectionHost,
+      this.metaReader
+    );
+    this.cycleAnalyzer = new InjectableCycleAnalyzer(
+      this.typeChecker,
       this.reflectionHost,
-      false,
-      this.options.strictCtorDeps
+      this.metaReader,
+      typeof this.options.checkCycles === 'object'
+        ? this.options.checkCycles
+        : {}
     );
+    this.handlers = [
+      new InjectableDecoratorHandler(
+        this.reflectionHost,
+        false,
+        !!this.options.strictCtorDeps,
+        this.metaRegistry,
+        this.metaReader,
+        this.typeChecker
+      ),
+      new InjectorModuleDecoratorHandler(
+        this.reflectionHost,
+        false,
+        this.metaReader,
+        this.typeChecker
+      ),
+    ];
+  }
+  /**
+   * Resolves the module specifiers the same way an import in one of the root files would be
+   * resolved, and returns the symbols of the modules that are part of the program.
+   */
+  private resolveModuleSymbols(specifiers: string[]): ts.Symbol[] {
+    const containingFile = this.program.getRootFileNames()[0];
+    if (containingFile === undefined) {
+      return [];
+    }
+    const symbols: ts.Symbol[] = [];
+    for (const specifier of specifiers) {
+      const resolved = ts.resolveModuleName(
+        specifier,
+        containingFile,
+        this.program.getCompilerOptions(),
+        ts.sys
+      ).resolvedModule;
+      const sf =
+        resolved && this.program.getSourceFile(resolved.resolvedFileName);
+      const symbol = sf && this.typeChecker.getSymbolAtLocation(sf);
+      if (symbol) {
+        symbols.push(symbol);
+      }
+    }
+    return symbols;
   }
   getTransform() {
     return (context: ts.TransformationContext) => this.transform(context);
   }
+  /**
+   * Returns the `afterDeclarations` transformer, which adds the types of the `ɵfac`/`ɵprov`
+   * fields to the classes of the emitted `.d.ts` files.
+   */
+  getDeclarationTransform() {
+    return declarationTransformFactory((sf) => {
+      const compilations = this.compileSourceFile(sf);
+      if (!compilations.length) {
+        return null;
+      }
+      const transform = new IvyDeclarationDtsTransform();
+      for (const item of compilations) {
+        transform.addFields(
+          item.node,
+          item.results.map((result) => ({
+            name: result.name,
+            type: result.type,
+          }))
+        );
+      }
+      return transform;
+    });
+  }
+  /**
+   * Returns the diagnostics reported while transforming `sf`, or of all transformed files when
+   * no file is given.
+   */
+  getDiagnostics(sf?: ts.SourceFile): ts.Diagnostic[] {
+    if (sf) {
+      return this.diagnosticsMap.get(sf) || [];
+    }
+    return ([] as ts.Diagnostic[]).concat(...this.diagnosticsMap.values());
+  }
   private visit(
     node: ts.Node,
     context: ts.TransformationContext,
@@ -61,13 +256,12 @@ export class InjectableTransformerFactory {
       (node: ClassDeclaration) => {
         let result = map.get(node);
         if (result) {
-          let decoratorList = node.decorators.filter(
+          let decoratorList = getDecorators(node)!.filter(
             (item) => item !== result.decorator
           );
-          return factory.updateClassDeclaration(
+          return updateClassDeclaration(
             node,
-            decoratorList.length ? decoratorList : undefined,
-            node.modifiers,
+            combineModifiers(decoratorList, getModifiers(node)),
             node.name,
             node.typeParameters,
             node.heritageClauses,
@@ -91,39 +285,144 @@ export class InjectableTransformerFactory {
     };
   }
 
-  private preAnalysis(sf: SourceFile) {
-    let classMetadataMap = new Map<ts.ClassDeclaration, ClassMetadata>();
-    let write = new NoopImportRewriter();
-    let importManager = new ImportManager(write);
+  /**
+   * Runs `detect` and `analyze` of the handlers over the decorated classes of `sf`, and `resolve`
+   * when `checkDependencies` is enabled. Errors are added to `diagnostics`, and the classes they
+   * belong to are left out of the result. The `Injector.create()` calls of `sf` are checked when
+   * `checkProviders` is enabled, and the dependency cycles of its classes when `checkCycles` is.
+   */
+  analyzeSourceFile(
+    sf: SourceFile,
+    diagnostics: ts.Diagnostic[]
+  ): ClassAnalysis[] {
+    let { classes, diagnostics: analysisDiagnostics } = this.analyzeFile(sf);
+    diagnostics.push(...analysisDiagnostics);
+    if (this.options.checkDependencies) {
+      for (const item of classes) {
+        let resolveResult = item.handler.resolve?.(item.node, item.analysis);
+        if (resolveResult && resolveResult.diagnostics) {
+          diagnostics.push(...resolveResult.diagnostics);
+        }
+      }
+    }
+    if (this.options.checkProviders) {
+      diagnostics.push(...this.injectorCreateChecker.checkSourceFile(sf));
+    }
+    if (this.options.checkCycles) {
+      for (const item of classes) {
+        let diagnostic = this.cycleAnalyzer.checkClass(item.node);
+        if (diagnostic) {
+          diagnostics.push(diagnostic);
+        }
+      }
+    }
+    return classes;
+  }
+
+  /**
+   * Analyzes the decorated classes of `sf` once and registers their metadata, so that it can be
+   * read while the dependencies of classes in other files are checked.
+   */
+  private analyzeFile(sf: SourceFile): FileAnalysis {
+    let fileAnalysis = this.analysisMap.get(sf);
+    if (fileAnalysis) {
+      return fileAnalysis;
+    }
+    let diagnostics: ts.Diagnostic[] = [];
+    let classAnalysisList: ClassAnalysis[] = [];
     nodeIteration(sf, (node) => {
       if (
         ts.isClassDeclaration(node) &&
-        node.decorators &&
+        getDecorators(node) &&
         this.reflectionHost.isClass(node)
       ) {
         const decorators = this.reflectionHost.getDecoratorsOfDeclaration(node);
 
-        let result = this.handler.detect(node, decorators);
-        if (!result) {
+        for (const handler of this.handlers) {
+          let result = handler.detect(node, decorators);
+          if (!result) {
+            continue;
+          }
+          try {
+            let analysisOutput = handler.analyze(node, result.metadata);
+            if (analysisOutput.diagnostics) {
+              diagnostics.push(...analysisOutput.diagnostics);
+            }
+            if (analysisOutput.analysis !== undefined) {
+              handler.register?.(node, analysisOutput.analysis);
+              classAnalysisList.push({
+                node,
+                handler,
+                decorator: result.trigger as ts.Decorator,
+                analysis: analysisOutput.analysis,
+              });
+            }
+          } catch (error) {
+            if (!isFatalDiagnosticError(error)) {
+              throw error;
+            }
+            diagnostics.push(error.toDiagnostic());
+          }
           return;
         }
-        let analysisOutput = this.handler.analyze(node, result.metadata);
-        let compileResult = this.handler.compileFull(
-          node,
-          analysisOutput.analysis
-        );
-        let resultNode = this.translate(compileResult, importManager);
-        classMetadataMap.set(node, {
-          ...resultNode,
-          decorator: result.trigger as ts.Decorator,
-        });
       }
     });
+    fileAnalysis = { classes: classAnalysisList, diagnostics };
+    this.analysisMap.set(sf, fileAnalysis);
+    return fileAnalysis;
+  }
 
-    // this.sourceFileMetadataMap.set(sf, {
-    //   classMetadataMap,
-    //   importManager: importManager,
-    // });
+  /**
+   * Analyzes and compiles the decorated classes of `sf`. The result is shared by the transformer
+   * and the declaration transformer, so the diagnostics of a file are only reported once.
+   */
+  private compileSourceFile(sf: SourceFile): ClassCompilation[] {
+    let compilations = this.compilationMap.get(sf);
+    if (compilations) {
+      return compilations;
+    }
+    compilations = [];
+    let diagnostics: ts.Diagnostic[] = [];
+    for (const item of this.analyzeSourceFile(sf, diagnostics)) {
+      let compileResult: CompileResult | CompileResult[];
+      try {
+        compileResult =
+          this.options.compilationMode === 'partial' &&
+          item.handler.compilePartial !== undefined
+            ? item.handler.compilePartial(item.node, item.analysis)
+            : item.handler.compileFull(item.node, item.analysis);
+      } catch (error) {
+        if (!isFatalDiagnosticError(error)) {
+          throw error;
+        }
+        diagnostics.push(error.toDiagnostic());
+        continue;
+      }
+      compilations.push({
+        node: item.node,
+        decorator: item.decorator,
+        results: Array.isArray(compileResult) ? compileResult : [compileResult],
+      });
+    }
+    this.compilationMap.set(sf, compilations);
+    this.diagnosticsMap.set(sf, diagnostics);
+    if (this.options.onDiagnostics && diagnostics.length) {
+      this.options.onDiagnostics(diagnostics, sf);
+    }
+    return compilations;
+  }
+
+  private preAnalysis(sf: SourceFile) {
+    let classMetadataMap = new Map<ts.ClassDeclaration, ClassMetadata>();
+    let write = new NoopImportRewriter();
+    let importManager = new ImportManager(write);
+    for (const item of this.compileSourceFile(sf)) {
+      let resultNode = this.translate(item.results, importManager);
+      classMetadataMap.set(item.node, {
+        ...resultNode,
+        decorator: item.decorator,
+      });
+    }
     return { classMetadataMap, importManager };
   }
   private translate(
@@ -139,9 +438,8 @@ export class InjectableTransformerFactory {
       const exprNode = translateExpression(field.initializer, importManager);
 
       // Create a static property declaration for the new field.
-      const property = ts.createProperty(
-        undefined,
-        [ts.createToken(ts.SyntaxKind.StaticKeyword)],
+      const property = createPropertyDeclaration(
+        [ts.factory.createToken(ts.SyntaxKind.StaticKeyword)],
         field.name,
         undefined,
         undefined,
@@ -178,10 +476,9 @@ export class InjectableTransformerFactory {
   private _stripAngularDecorators<T extends ts.Node>(node: T): T {
     if (ts.isParameter(node)) {
       // Strip decorators from parameters (probably of the constructor).
-      node = ts.updateParameter(
+      node = updateParameterDeclaration(
         node,
-        this._nonCoreDecoratorsOnly(node),
-        node.modifiers,
+        combineModifiers(this._nonCoreDecoratorsOnly(node), getModifiers(node)),
         node.dotDotDotToken,
         node.name,
         node.questionToken,
@@ -193,10 +490,9 @@ export class InjectableTransformerFactory {
       const parameters = node.parameters.map((param) =>
         this._stripAngularDecorators(param)
       );
-      node = ts.updateConstructor(
+      node = updateConstructorDeclaration(
         node,
-        node.decorators,
-        node.modifiers,
+        getModifiers(node),
         parameters,
         node.body
       ) as T & ts.ConstructorDeclaration;
@@ -232,23 +528,24 @@ export class InjectableTransformerFactory {
   private _nonCoreDecoratorsOnly(
     node: ts.Declaration
   ): ts.NodeArray<ts.Decorator> | undefined {
+    const decorators = getDecorators(node);
     // Shortcut if the node has no decorators.
-    if (node.decorators === undefined) {
+    if (decorators === undefined) {
       return undefined;
     }
     // Build a Set of the decorators on this node from static-injector.
     const coreDecorators = this._angularCoreDecorators(node);
 
-    if (coreDecorators.size === node.decorators.length) {
+    if (coreDecorators.size === decorators.length) {
       // If all decorators are to be removed, return `undefined`.
       return undefined;
     } else if (coreDecorators.size === 0) {
       // If no decorators need to be removed, return the original decorators array.
-      return node.decorators;
+      return decorators as ts.NodeArray<ts.Decorator>;
     }
 
     // Filter out the core decorators.
-    const filtered = node.decorators.filter((dec) => !coreDecorators.has(dec));
+    const filtered = decorators.filter((dec) => !coreDecorators.has(dec));
 
     // If no decorators survive, return `undefined`. This can only happen if a core decorator is
     // repeated on the node.
@@ -257,9 +554,9 @@ export class InjectableTransformerFactory {
     }
 
     // Create a new `NodeArray` with the filtered decorators that sourcemaps back to the original.
-    const array = ts.createNodeArray(filtered);
-    (array.pos as number) = node.decorators.pos;
-    (array.end as number) = node.decorators.end;
+    const array = ts.factory.createNodeArray(filtered);
+    (array.pos as number) = decorators[0].pos;
+    (array.end as number) = decorators[decorators.length - 1].end;
     return array;
   }
   private updateStatements(node: ts.SourceFile, importManager: ImportManager) {
@@ -267,10 +564,8 @@ export class InjectableTransformerFactory {
   }
 }
 /**
- * todo 引入
+ * 是否为`static-injector`(或`coreModules`)中的装饰器
  */
 function isFromAngularCore(decorator: Decorator): boolean {
-  return (
-    decorator.import !== null && decorator.import.from === 'static-injector'
-  );
+  return decorator.import !== null && decorator.import.from === CORE_MODULE;
 }
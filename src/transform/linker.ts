@@ -0,0 +1,281 @@
+import ts from 'typescript';
+import {
+  compileFactoryFunction,
+  compileInjectable,
+  compileInjector,
+  Expression,
+  FactoryTarget,
+  LiteralExpr,
+  R3DependencyMetadata,
+  R3FactoryMetadata,
+  R3InjectableMetadata,
+  R3InjectorMetadata,
+  WrappedNodeExpr,
+} from './compiler/index';
+import { R3ProviderExpression } from './compiler/src/injectable_compiler_2';
+import {
+  ImportGenerator,
+  NamedImport,
+} from './compiler-cli/src/ngtsc/translator/src/api/import_generator';
+import { translateExpression } from './compiler-cli/src/ngtsc/translator';
+
+const DECLARE_INJECTABLE = 'ɵɵngDeclareInjectable';
+const DECLARE_FACTORY = 'ɵɵngDeclareFactory';
+const DECLARE_INJECTOR = 'ɵɵngDeclareInjector';
+
+/**
+ * Creates a transformer that replaces the `ɵɵngDeclareInjectable`/`ɵɵngDeclareFactory`/
+ * `ɵɵngDeclareInjector` calls emitted by `compilationMode: 'partial'` with the full definitions.
+ */
+export function createLinkerTransformer(): ts.TransformerFactory<ts.SourceFile> {
+  return (context) => {
+    const visitor = (node: ts.Node): ts.Node => {
+      node = ts.visitEachChild(node, visitor, context);
+      if (ts.isCallExpression(node)) {
+        return linkDeclaration(node) ?? node;
+      }
+      return node;
+    };
+    return (sf) => ts.visitNode(sf, visitor) as ts.SourceFile;
+  };
+}
+
+/**
+ * Links the partial declarations of a JavaScript source, e.g. a file of a library in
+ * `node_modules`. Sources without partial declarations are returned unchanged.
+ */
+export function linkSource(source: string, fileName = 'index.js'): string {
+  if (!source.includes('ɵɵngDeclare')) {
+    return source;
+  }
+  const sf = ts.createSourceFile(
+    fileName,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.JS
+  );
+  const result = ts.transform(sf, [createLinkerTransformer()]);
+  try {
+    return ts.createPrinter().printFile(result.transformed[0]);
+  } finally {
+    result.dispose();
+  }
+}
+
+function linkDeclaration(call: ts.CallExpression): ts.Expression | null {
+  const name = getCalleeName(call.expression);
+  if (
+    (name !== DECLARE_INJECTABLE &&
+      name !== DECLARE_FACTORY &&
+      name !== DECLARE_INJECTOR) ||
+    call.arguments.length !== 1 ||
+    !ts.isObjectLiteralExpression(call.arguments[0])
+  ) {
+    return null;
+  }
+  const decl = new PartialDeclaration(call.arguments[0]);
+  const ngImport = decl.getExpression('ngImport');
+  let result;
+  switch (name) {
+    case DECLARE_INJECTABLE:
+      result = compileInjectable(toInjectableMetadata(decl), false);
+      break;
+    case DECLARE_INJECTOR:
+      result = compileInjector(toInjectorMetadata(decl));
+      break;
+    default:
+      result = compileFactoryFunction(toFactoryMetadata(decl));
+  }
+  return translateExpression(
+    result.expression,
+    new LinkerImportGenerator(ngImport)
+  );
+}
+
+function getCalleeName(callee: ts.Expression): string | null {
+  if (ts.isIdentifier(callee)) {
+    return callee.text;
+  } else if (ts.isPropertyAccessExpression(callee)) {
+    return callee.name.text;
+  }
+  return null;
+}
+
+function toInjectableMetadata(decl: PartialDeclaration): R3InjectableMetadata {
+  const type = new WrappedNodeExpr(decl.getExpression('type'));
+  const meta: R3InjectableMetadata = {
+    name: getTypeName(type.node),
+    type: { value: type, type },
+    internalType: type,
+    typeArgumentCount: 0,
+    providedIn: decl.has('providedIn')
+      ? decl.getProviderExpression('providedIn')
+      : { expression: new LiteralExpr(null), isForwardRef: false },
+  };
+  if (decl.has('useClass')) {
+    meta.useClass = decl.getProviderExpression('useClass');
+  }
+  if (decl.has('useFactory')) {
+    meta.useFactory = new WrappedNodeExpr(decl.getExpression('useFactory'));
+  }
+  if (decl.has('useExisting')) {
+    meta.useExisting = decl.getProviderExpression('useExisting');
+  }
+  if (decl.has('useValue')) {
+    meta.useValue = decl.getProviderExpression('useValue');
+  }
+  if (decl.has('deps')) {
+    meta.deps = decl.getDependencies('deps') as R3DependencyMetadata[];
+  }
+  if (decl.has('lifetime')) {
+    meta.lifetime = new WrappedNodeExpr(decl.getExpression('lifetime'));
+  }
+  return meta;
+}
+
+function toInjectorMetadata(decl: PartialDeclaration): R3InjectorMetadata {
+  const type = new WrappedNodeExpr(decl.getExpression('type'));
+  return {
+    name: getTypeName(type.node),
+    type: { value: type, type },
+    internalType: type,
+    providers: decl.has('providers')
+      ? new WrappedNodeExpr(decl.getExpression('providers'))
+      : null,
+    imports: decl.has('imports')
+      ? new WrappedNodeExpr(decl.getExpression('imports'))
+      : null,
+  };
+}
+
+function toFactoryMetadata(decl: PartialDeclaration): R3FactoryMetadata {
+  const type = new WrappedNodeExpr(decl.getExpression('type'));
+  const target = decl.getExpression('target');
+  return {
+    name: getTypeName(type.node),
+    type: { value: type, type },
+    internalType: type,
+    typeArgumentCount: 0,
+    deps: decl.getDependencies('deps'),
+    target: ts.isNumericLiteral(target)
+      ? (Number(target.text) as FactoryTarget)
+      : FactoryTarget.Injectable,
+  };
+}
+
+function getTypeName(node: ts.Expression): string {
+  return ts.isIdentifier(node) ? node.text : 'anonymous';
+}
+
+/** Reads the properties of the object literal passed to a partial declaration. */
+class PartialDeclaration {
+  private properties = new Map<string, ts.Expression>();
+
+  constructor(literal: ts.ObjectLiteralExpression) {
+    for (const property of literal.properties) {
+      if (
+        ts.isPropertyAssignment(property) &&
+        !ts.isComputedPropertyName(property.name)
+      ) {
+        this.properties.set(property.name.text, property.initializer);
+      }
+    }
+  }
+
+  has(name: string): boolean {
+    return this.properties.has(name);
+  }
+
+  getExpression(name: string): ts.Expression {
+    const expression = this.properties.get(name);
+    if (expression === undefined) {
+      throw new Error(`Partial declaration is missing the "${name}" property`);
+    }
+    return expression;
+  }
+
+  /** Unwraps `forwardRef(() => value)`, like `getProviderExpression` of the handler. */
+  getProviderExpression(name: string): R3ProviderExpression {
+    const expression = this.getExpression(name);
+    const forwardRefValue = unwrapForwardRef(expression);
+    return {
+      expression: new WrappedNodeExpr(forwardRefValue ?? expression),
+      isForwardRef: forwardRefValue !== null,
+    };
+  }
+
+  getDependencies(name: string): R3DependencyMetadata[] | 'invalid' | null {
+    const expression = this.getExpression(name);
+    if (ts.isStringLiteral(expression) && expression.text === 'invalid') {
+      return 'invalid';
+    }
+    if (!ts.isArrayLiteralExpression(expression)) {
+      return null;
+    }
+    return expression.elements.map((element) => {
+      if (!ts.isObjectLiteralExpression(element)) {
+        throw new Error('Unsupported dependency in partial declaration');
+      }
+      const dep = new PartialDeclaration(element);
+      const token = dep.has('token') ? dep.getExpression('token') : null;
+      return {
+        token:
+          token === null || token.kind === ts.SyntaxKind.NullKeyword
+            ? null
+            : new WrappedNodeExpr(token),
+        attributeNameType: dep.getBoolean('attribute')
+          ? new LiteralExpr('unknown')
+          : null,
+        host: dep.getBoolean('host'),
+        optional: dep.getBoolean('optional'),
+        self: dep.getBoolean('self'),
+        skipSelf: dep.getBoolean('skipSelf'),
+        lazy: dep.getBoolean('lazy'),
+      };
+    });
+  }
+
+  private getBoolean(name: string): boolean {
+    return this.properties.get(name)?.kind === ts.SyntaxKind.TrueKeyword;
+  }
+}
+
+function unwrapForwardRef(expression: ts.Expression): ts.Expression | null {
+  if (
+    !ts.isCallExpression(expression) ||
+    getCalleeName(expression.expression) !== 'forwardRef' ||
+    expression.arguments.length !== 1
+  ) {
+    return null;
+  }
+  const fn = expression.arguments[0];
+  if (!ts.isArrowFunction(fn) && !ts.isFunctionExpression(fn)) {
+    return null;
+  }
+  if (!ts.isBlock(fn.body)) {
+    return fn.body;
+  }
+  const statement = fn.body.statements[0];
+  return fn.body.statements.length === 1 &&
+    ts.isReturnStatement(statement) &&
+    statement.expression !== undefined
+    ? statement.expression
+    : null;
+}
+
+/** Resolves the imports of the compiled definitions to the `ngImport` of the declaration. */
+class LinkerImportGenerator implements ImportGenerator<ts.Expression> {
+  constructor(private ngImport: ts.Expression) {}
+
+  generateNamespaceImport(): ts.Expression {
+    return this.ngImport;
+  }
+
+  generateNamedImport(
+    moduleName: string,
+    originalSymbol: string
+  ): NamedImport<ts.Expression> {
+    return { moduleImport: this.ngImport, symbol: originalSymbol };
+  }
+}
@@ -0,0 +1,33 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  AsyncLocalStorageInjectionContextStrategy,
+  inject,
+  InjectionToken,
+  Injector,
+  runInInjectionContext,
+  setInjectionContextStrategy,
+} from 'static-injector';
+setInjectionContextStrategy(
+  new AsyncLocalStorageInjectionContextStrategy(new AsyncLocalStorage())
+);
+let token = new InjectionToken<string>('token');
+
+function handleRequest(name: string, delay: number) {
+  let injector = Injector.create({
+    providers: [{ provide: token, useValue: name }],
+  });
+  return runInInjectionContext(injector, async () => {
+    let before = inject(token);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    return [before, inject(token)];
+  });
+}
+
+export const results = Promise.all([
+  handleRequest('first', 20),
+  handleRequest('second', 5),
+]);
+
+export function injectOutside() {
+  return inject(token);
+}
@@ -0,0 +1,144 @@
+import {
+  inject,
+  Injectable,
+  InjectionToken,
+  Injector,
+  R3Injector,
+} from 'static-injector';
+export const CONFIG = new InjectionToken<{ url: string }>('config');
+export const CONNECTION = new InjectionToken<string>('connection');
+export const LAZY = new InjectionToken<string>('lazy');
+export let connectionCount = 0;
+
+@Injectable()
+export class MyClass {
+  constructor(private connection: Connection) {}
+  out() {
+    return this.connection.name;
+  }
+}
+@Injectable()
+export class Connection {
+  constructor(public name: string) {}
+}
+export function createProviders() {
+  return [
+    { provide: MyClass },
+    {
+      provide: CONFIG,
+      useAsyncFactory: async () => ({ url: 'db://local' }),
+    },
+    {
+      provide: Connection,
+      useAsyncFactory: async (config: { url: string }) => {
+        connectionCount++;
+        return new Connection(config.url);
+      },
+      deps: [CONFIG],
+    },
+    {
+      provide: LAZY,
+      useAsyncFactory: () => Promise.reject(new Error('lazy failed')),
+      eager: false,
+    },
+  ];
+}
+
+export const injector = Injector.create({ providers: createProviders() });
+
+export const createdInjector = Injector.createAsync({
+  providers: createProviders(),
+});
+
+export function createInjectorWithFailures() {
+  return Injector.createAsync({
+    providers: [
+      {
+        provide: CONNECTION,
+        useAsyncFactory: () => Promise.reject(new Error('connect failed')),
+      },
+      { provide: CONFIG, useAsyncFactory: async () => ({ url: 'db://local' }) },
+      {
+        provide: LAZY,
+        useAsyncFactory: () => Promise.reject(new Error('lazy failed')),
+      },
+    ],
+  });
+}
+
+export function createFailedInjector() {
+  return Injector.createAsync({
+    providers: [
+      {
+        provide: CONNECTION,
+        useAsyncFactory: () => Promise.reject(new Error('connect failed')),
+      },
+    ],
+  });
+}
+
+export const cycleInjector = Injector.create({
+  providers: [
+    { provide: CONFIG, useAsyncFactory: async (c) => c, deps: [CONNECTION] },
+    { provide: CONNECTION, useAsyncFactory: async (c) => c, deps: [CONFIG] },
+  ],
+});
+
+export const REPORT = new InjectionToken<string>('report');
+export const SUMMARY = new InjectionToken<string>('summary');
+export let reportCount = 0;
+export let loggerCount = 0;
+export let destroyedLoggers = 0;
+@Injectable()
+export class RequestLogger {
+  constructor() {
+    loggerCount++;
+  }
+  ngOnDestroy() {
+    destroyedLoggers++;
+  }
+}
+@Injectable()
+export class Report {
+  constructor(public logger: RequestLogger, public connection: Connection) {
+    reportCount++;
+  }
+}
+export function createReportInjector() {
+  return Injector.create({
+    providers: [
+      { provide: RequestLogger, lifetime: 'transient' },
+      { provide: Report },
+      {
+        provide: CONFIG,
+        useAsyncFactory: async () => ({ url: 'db://report' }),
+        eager: false,
+      },
+      {
+        provide: Connection,
+        useAsyncFactory: async () => new Connection('report'),
+        eager: false,
+      },
+      {
+        provide: REPORT,
+        useFactory: (
+          logger: RequestLogger,
+          config: { url: string },
+          connection: Connection
+        ) => {
+          reportCount++;
+          return `${config.url} ${connection.name}`;
+        },
+        deps: [RequestLogger, CONFIG, Connection],
+      },
+      {
+        provide: SUMMARY,
+        // The dependencies of `inject` calls are only known once the factory runs.
+        useFactory: () => {
+          inject(RequestLogger);
+          return inject(Connection).name;
+        },
+      },
+    ],
+  }) as R3Injector;
+}
@@ -0,0 +1,34 @@
+import { Injectable, InjectionToken, Injector } from 'static-injector';
+@Injectable()
+export class ClassA {
+  constructor(private classB: ClassB) {}
+}
+@Injectable()
+export class ClassB {
+  constructor(private classA: ClassA) {}
+}
+let injector = Injector.create({
+  providers: [{ provide: ClassA }, { provide: ClassB }],
+});
+export const classError = getError(() => injector.get(ClassA));
+
+let tokenA = new InjectionToken('tokenA');
+let tokenB = new InjectionToken('tokenB');
+let tokenC = new InjectionToken('tokenC');
+let aliasInjector = Injector.create({
+  providers: [
+    { provide: tokenA, useExisting: tokenB },
+    { provide: tokenB, useFactory: (c) => c, deps: [tokenC] },
+    { provide: tokenC, useExisting: tokenA },
+  ],
+});
+export const aliasError = getError(() => aliasInjector.get(tokenA));
+
+function getError(fn: () => any) {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
@@ -0,0 +1,8 @@
+import { CompanyInjectable, Inject, InjectionToken } from './company-di';
+
+export const NAME = new InjectionToken<string>('NAME');
+
+@CompanyInjectable()
+export class BarrelService {
+  constructor(@Inject(NAME) public name: string) {}
+}
@@ -0,0 +1,2 @@
+export * from 'static-injector';
+export { Injectable as CompanyInjectable } from 'static-injector';
@@ -0,0 +1,8 @@
+import { Injectable, Optional } from '@company/di';
+
+export class Dependency {}
+
+@Injectable()
+export class SpecifierService {
+  constructor(@Optional() public dependency: Dependency) {}
+}
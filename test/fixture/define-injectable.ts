@@ -0,0 +1,35 @@
+import {
+  defineInjectable,
+  Inject,
+  InjectionToken,
+  Injector,
+  Optional,
+} from 'static-injector';
+
+export class Engine {}
+defineInjectable(Engine, { providedIn: 'root' });
+
+export class Wheel {}
+export const NAME = new InjectionToken<string>('NAME');
+
+export class Car {
+  constructor(
+    public engine: Engine,
+    public wheel: Wheel | null,
+    public name: string
+  ) {}
+}
+defineInjectable(Car, {
+  providedIn: 'root',
+  deps: [Engine, [new Optional(), Wheel], [new Inject(NAME)]],
+});
+
+export class SportsCar extends Car {}
+defineInjectable(SportsCar);
+
+export function createDefineInjector() {
+  return Injector.create({
+    scope: 'root',
+    providers: [{ provide: NAME, useValue: 'car' }, { provide: SportsCar }],
+  });
+}
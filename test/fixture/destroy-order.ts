@@ -0,0 +1,91 @@
+import {
+  inject,
+  Injectable,
+  Injector,
+  Lazy,
+  LazyHandle,
+  R3Injector,
+} from 'static-injector';
+export const destroyed: string[] = [];
+@Injectable()
+export class Logger {
+  ngOnDestroy() {
+    destroyed.push('Logger');
+  }
+}
+@Injectable()
+export class Database {
+  constructor(private logger: Logger) {}
+  async ngOnDestroy() {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    destroyed.push('Database');
+  }
+}
+@Injectable()
+export class UserService {
+  constructor(private database: Database) {}
+  ngOnDestroy() {
+    destroyed.push('UserService');
+  }
+}
+@Injectable()
+export class FailedService {
+  constructor(private userService: UserService) {}
+  ngOnDestroy() {
+    throw new Error('FailedService');
+  }
+}
+@Injectable()
+export class AnotherFailedService {
+  constructor(private failedService: FailedService) {}
+  ngOnDestroy() {
+    throw new Error('AnotherFailedService');
+  }
+}
+export function createInjector() {
+  return Injector.create({
+    providers: [
+      { provide: Logger },
+      { provide: Database },
+      { provide: UserService },
+      { provide: FailedService },
+      { provide: AnotherFailedService },
+    ],
+  }) as R3Injector;
+}
+@Injectable()
+export class Cache {
+  ngOnDestroy() {
+    destroyed.push('Cache');
+  }
+}
+@Injectable()
+export class Session {
+  cache = inject(Cache, { lazy: true });
+  ngOnDestroy() {
+    destroyed.push('Session');
+  }
+}
+@Injectable()
+export class Store {
+  constructor(@Lazy() public cache: LazyHandle<Cache>) {}
+  ngOnDestroy() {
+    destroyed.push('Store');
+  }
+}
+@Injectable()
+export class RejectedService {
+  async ngOnDestroy() {
+    throw new Error('RejectedService');
+  }
+}
+export function createLazyInjector() {
+  return Injector.create({
+    providers: [
+      { provide: Cache },
+      { provide: Session },
+      { provide: Store },
+      { provide: RejectedService },
+    ],
+  }) as R3Injector;
+}
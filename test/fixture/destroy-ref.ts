@@ -0,0 +1,38 @@
+import {
+  DestroyRef,
+  inject,
+  Injectable,
+  InjectionToken,
+  Injector,
+  R3Injector,
+} from 'static-injector';
+export const destroyed: string[] = [];
+export const CONNECTION = new InjectionToken<{ name: string }>('connection');
+@Injectable()
+export class MyClass {
+  constructor(destroyRef: DestroyRef) {
+    destroyRef.onDestroy(() => destroyed.push('MyClass callback'));
+  }
+  ngOnDestroy() {
+    destroyed.push('MyClass');
+  }
+}
+let injector = Injector.create({
+  providers: [
+    { provide: MyClass },
+    {
+      provide: CONNECTION,
+      useFactory: () => {
+        inject(DestroyRef).onDestroy(() => destroyed.push('connection'));
+        return { name: 'connection' };
+      },
+    },
+  ],
+}) as R3Injector;
+injector.get(CONNECTION);
+injector.get(MyClass);
+let unregister = injector
+  .get(DestroyRef)
+  .onDestroy(() => destroyed.push('unregistered'));
+unregister();
+injector.destroy();
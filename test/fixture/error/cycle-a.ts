@@ -0,0 +1,29 @@
+import {
+  forwardRef,
+  Inject,
+  Injectable,
+  Lazy,
+  LazyHandle,
+  Optional,
+} from 'static-injector';
+import { ServiceB } from './cycle-b';
+@Injectable()
+export class ServiceA {
+  constructor(public b: ServiceB) {}
+}
+@Injectable()
+export class OptionalA {
+  constructor(@Optional() @Inject(forwardRef(() => OptionalB)) public b: any) {}
+}
+@Injectable()
+export class OptionalB {
+  constructor(public a: OptionalA) {}
+}
+@Injectable()
+export class LazyA {
+  constructor(@Lazy() public b: LazyHandle<LazyB>) {}
+}
+@Injectable()
+export class LazyB {
+  constructor(public a: LazyA) {}
+}
@@ -0,0 +1,10 @@
+import { forwardRef, Inject, Injectable } from 'static-injector';
+import { ServiceA } from './cycle-a';
+@Injectable()
+export class ServiceB {
+  constructor(@Inject(forwardRef(() => ServiceC)) public c: any) {}
+}
+@Injectable()
+export class ServiceC {
+  constructor(public a: ServiceA) {}
+}
@@ -0,0 +1,60 @@
+import {
+  forwardRef,
+  Injectable,
+  InjectionToken,
+  Injector,
+  Optional,
+} from 'static-injector';
+export const API_URL = new InjectionToken<string>('API_URL');
+export const RETRIES = new InjectionToken('RETRIES', {
+  providedIn: 'root',
+  factory: () => 3,
+});
+@Injectable({ providedIn: 'root' })
+export class Config {
+  constructor() {}
+}
+@Injectable()
+export class Logger {
+  constructor() {}
+}
+@Injectable()
+export class Http {
+  constructor(public logger: Logger, public config: Config) {}
+}
+@Injectable({ providedIn: 'root' })
+export class Cache {
+  constructor(public logger: Logger) {}
+}
+@Injectable()
+export class Api {
+  constructor(public http: Http, public cache: Cache) {}
+}
+const httpProviders = [
+  { provide: Http, useClass: Http },
+  { provide: API_URL, useValue: '/' },
+];
+// Logger is missing, it is required by Api -> Cache -> Logger and by Http -> Logger.
+export const missing = Injector.create({
+  providers: [{ provide: Api, useClass: Api }, httpProviders],
+});
+export const factory = Injector.create({
+  providers: [
+    {
+      provide: 'url',
+      useFactory: (url: string, logger?: Logger) => url,
+      deps: [API_URL, [new Optional(), Logger], RETRIES],
+    },
+  ],
+});
+export const complete = Injector.create({
+  providers: [
+    { provide: Api, useClass: Api },
+    { provide: Http, useClass: Http },
+    { provide: Logger, useClass: forwardRef(() => Logger) },
+  ],
+});
+export const withParent = Injector.create({
+  providers: [{ provide: Api, useClass: Api }],
+  parent: complete,
+});
@@ -0,0 +1,9 @@
+import { Injectable } from 'static-injector';
+@Injectable()
+export class ValidClass {
+  constructor() {}
+}
+@Injectable()
+export class InvalidClass {
+  constructor(a) {}
+}
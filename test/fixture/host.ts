@@ -0,0 +1,30 @@
+import {
+  Host,
+  Inject,
+  Injectable,
+  InjectionToken,
+  Injector,
+  Optional,
+} from 'static-injector';
+export const CONFIG = new InjectionToken<string>('CONFIG');
+@Injectable()
+export class Widget {
+  constructor(@Host() @Optional() @Inject(CONFIG) public config: string) {}
+}
+export function createInjectors(pluginConfig?: string) {
+  let app = Injector.create({
+    providers: [{ provide: CONFIG, useValue: 'app' }],
+  });
+  let plugin = Injector.create({
+    providers: pluginConfig
+      ? [{ provide: CONFIG, useValue: pluginConfig }]
+      : [],
+    parent: app,
+    host: true,
+  });
+  let widget = Injector.create({
+    providers: [{ provide: Widget }],
+    parent: plugin,
+  });
+  return { app, plugin, widget };
+}
@@ -0,0 +1,30 @@
+import { inject, Injectable, InjectionToken, Injector } from 'static-injector';
+@Injectable()
+export class Logger {
+  constructor() {}
+}
+export const MISSING = new InjectionToken<string>('MISSING');
+export const RESOLVED = new InjectionToken<{
+  self: Logger | null;
+  parent: Logger;
+  fallback: string;
+  optional: string | null;
+}>('RESOLVED');
+export function createInjectors() {
+  let parent = Injector.create({ providers: [{ provide: Logger }] });
+  let child = Injector.create({
+    providers: [
+      {
+        provide: RESOLVED,
+        useFactory: () => ({
+          self: inject(Logger, { self: true, optional: true }),
+          parent: inject(Logger, { skipSelf: true }),
+          fallback: inject(MISSING, { default: 'fallback' }),
+          optional: inject(MISSING, { optional: true }),
+        }),
+      },
+    ],
+    parent,
+  });
+  return { parent, child };
+}
@@ -0,0 +1,52 @@
+import {
+  inject,
+  Injectable,
+  InjectionToken,
+  Injector,
+  INJECTOR_INITIALIZER,
+} from 'static-injector';
+export const calls: string[] = [];
+@Injectable()
+export class MyClass {
+  name = 'MyClass';
+}
+let parent = Injector.create({
+  providers: [
+    {
+      provide: INJECTOR_INITIALIZER,
+      useValue: () => calls.push('parent'),
+      multi: true,
+    },
+  ],
+});
+Injector.create({
+  parent,
+  providers: [
+    { provide: MyClass },
+    {
+      provide: INJECTOR_INITIALIZER,
+      useValue: () => calls.push(inject(MyClass).name),
+      multi: true,
+    },
+    {
+      provide: INJECTOR_INITIALIZER,
+      useFactory: () => () => calls.push('factory'),
+      multi: true,
+    },
+  ],
+});
+
+let token = new InjectionToken('token');
+export function createFailedInjector() {
+  return Injector.create({
+    name: 'failed',
+    providers: [
+      { provide: INJECTOR_INITIALIZER, useValue: () => {}, multi: true },
+      {
+        provide: INJECTOR_INITIALIZER,
+        useValue: () => inject(token),
+        multi: true,
+      },
+    ],
+  });
+}
@@ -0,0 +1,46 @@
+import {
+  createInjector,
+  Injectable,
+  InjectionToken,
+  InjectorModule,
+  InjectorTypeWithProviders,
+} from 'static-injector';
+export const API_URL = new InjectionToken<string>('API_URL');
+@Injectable()
+export class Http {
+  constructor() {}
+}
+@InjectorModule({
+  providers: [Http, { provide: API_URL, useValue: 'default' }],
+})
+export class HttpModule {
+  static withUrl(url: string): InjectorTypeWithProviders<HttpModule> {
+    return {
+      ngModule: HttpModule,
+      providers: [{ provide: API_URL, useValue: url }],
+    };
+  }
+}
+@Injectable({ providedIn: HttpModule })
+export class HttpClient {
+  constructor(public http: Http) {}
+}
+@InjectorModule({ imports: [HttpModule] })
+export class SharedModule {}
+export let createdModules: string[] = [];
+@Injectable()
+export class Logger {
+  constructor() {}
+}
+@InjectorModule({
+  imports: [SharedModule, HttpModule.withUrl('https://example.com')],
+  providers: [Logger],
+})
+export class AppModule {
+  constructor(public logger: Logger) {
+    createdModules.push('AppModule');
+  }
+}
+export function createAppInjector() {
+  return createInjector(AppModule);
+}
@@ -0,0 +1,38 @@
+import {
+  inject,
+  Inject,
+  Injectable,
+  InjectionToken,
+  Injector,
+  Lazy,
+  LazyHandle,
+} from 'static-injector';
+export let engineCount = 0;
+@Injectable()
+export class Engine {
+  constructor() {
+    engineCount++;
+  }
+  start() {
+    return 'started';
+  }
+}
+export const NAME = new InjectionToken<string>('NAME');
+@Injectable()
+export class Car {
+  constructor(
+    @Lazy() public engine: LazyHandle<Engine>,
+    @Inject(NAME) @Lazy() public name: LazyHandle<string>
+  ) {}
+}
+export const GARAGE = new InjectionToken<LazyHandle<Engine>>('GARAGE');
+export function createLazyInjector() {
+  return Injector.create({
+    providers: [
+      { provide: Engine },
+      { provide: Car },
+      { provide: NAME, useValue: 'car' },
+      { provide: GARAGE, useFactory: () => inject(Engine, { lazy: true }) },
+    ],
+  });
+}
@@ -0,0 +1,32 @@
+import { Inject, Injectable, InjectionToken, Injector } from 'static-injector';
+let requestId = 0;
+@Injectable({ providedIn: 'request' })
+export class RequestContext {
+  id = ++requestId;
+}
+export const SESSION = new InjectionToken('session', {
+  providedIn: 'session',
+  factory: () => ({ name: 'session' }),
+});
+@Injectable()
+export class Handler {
+  constructor(public context: RequestContext) {}
+}
+@Injectable()
+export class SessionHandler {
+  constructor(@Inject(SESSION) public session: { name: string }) {}
+}
+let root = Injector.create({ providers: [], scope: 'root' });
+let session = Injector.create({
+  providers: [],
+  parent: root,
+  scope: 'session',
+});
+export function createRequest() {
+  return Injector.create({
+    providers: [{ provide: Handler }],
+    parent: session,
+    scope: 'request',
+  });
+}
+export const sessionInjector = session;
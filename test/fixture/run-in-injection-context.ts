@@ -0,0 +1,33 @@
+import {
+  inject,
+  InjectionToken,
+  Injector,
+  R3Injector,
+  runInInjectionContext,
+} from 'static-injector';
+let token = new InjectionToken<string>('token');
+let outer = Injector.create({
+  providers: [{ provide: token, useValue: 'outer' }],
+});
+let inner = Injector.create({
+  providers: [{ provide: token, useValue: 'inner' }],
+});
+
+function readToken() {
+  return inject(token);
+}
+export const values = runInInjectionContext(outer, () => [
+  readToken(),
+  runInInjectionContext(inner, readToken),
+  readToken(),
+]);
+
+export function injectOutside() {
+  return readToken();
+}
+
+export function runInDestroyed() {
+  let injector = Injector.create({ providers: [] }) as R3Injector;
+  injector.destroy();
+  return runInInjectionContext(injector, readToken);
+}
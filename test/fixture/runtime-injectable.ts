@@ -0,0 +1,68 @@
+import {
+  inject,
+  Inject,
+  Injectable,
+  InjectionToken,
+  Injector,
+  Optional,
+} from 'static-injector';
+
+@Injectable({ providedIn: 'root' })
+export class Engine {}
+
+export class Wheel {}
+export const NAME = new InjectionToken<string>('NAME');
+
+@Injectable({ providedIn: 'root' })
+export class Car {
+  constructor(
+    public engine: Engine,
+    @Inject(NAME) public name: string,
+    @Optional() public wheel?: Wheel
+  ) {}
+}
+
+@Injectable()
+export class SportsCar extends Car {}
+
+@Injectable({ providedIn: 'root', deps: [Engine] })
+export class ExplicitDeps {
+  constructor(public engine: Engine) {}
+}
+
+@Injectable()
+export class ConsoleLogger {
+  log() {
+    return 'console';
+  }
+}
+@Injectable({ providedIn: 'root', useClass: ConsoleLogger })
+export abstract class Logger {
+  abstract log(): string;
+}
+
+@Injectable()
+export class Unresolved {
+  constructor(public engine: Engine, public options: unknown) {}
+}
+
+// Standard decorators pass a context object, dependencies come from `inject()` initializers.
+export class StandardService {
+  name = inject(NAME);
+  engine = inject(Engine);
+}
+Injectable({ providedIn: 'root' })(StandardService, {
+  kind: 'class',
+  name: 'StandardService',
+});
+
+export function createRuntimeInjector() {
+  return Injector.create({
+    scope: 'root',
+    providers: [
+      { provide: NAME, useValue: 'car' },
+      { provide: SportsCar },
+      { provide: Unresolved },
+    ],
+  });
+}
@@ -0,0 +1,32 @@
+import { inject, Injectable, InjectionToken, Injector } from 'static-injector';
+
+export let otherDecoratorKind: string | undefined;
+function OtherDecorator() {
+  return function (target: any, context?: any) {
+    otherDecoratorKind = context?.kind;
+  };
+}
+
+export const NAME = new InjectionToken<string>('NAME');
+
+@Injectable()
+export class Logger {
+  log(value: string) {
+    return `log: ${value}`;
+  }
+}
+
+@OtherDecorator()
+@Injectable({ providedIn: 'root' })
+export class MyClass {
+  private logger = inject(Logger);
+  name = inject(NAME, { optional: true });
+  hello() {
+    return this.logger.log('hello');
+  }
+}
+
+let injector = Injector.create({
+  providers: [{ provide: Logger }, { provide: MyClass }],
+});
+export const instance = injector.get(MyClass);
@@ -0,0 +1,27 @@
+import { Injectable, Injector, R3Injector } from 'static-injector';
+export let destroyed: number[] = [];
+let parserId = 0;
+@Injectable({ providedIn: 'root', lifetime: 'transient' })
+export class Parser {
+  id = ++parserId;
+  ngOnDestroy() {
+    destroyed.push(this.id);
+  }
+}
+@Injectable()
+export class RequestBuilder {
+  headers: string[] = [];
+}
+@Injectable()
+export class Client {
+  constructor(public first: Parser, public second: Parser) {}
+}
+export function createTransientInjector() {
+  return Injector.create({
+    providers: [
+      { provide: RequestBuilder, lifetime: 'transient' },
+      { provide: Client },
+    ],
+    scope: 'root',
+  }) as R3Injector;
+}
@@ -0,0 +1,14 @@
+import { injectOutside, results } from '../fixture/async-local-storage-context';
+describe('async-local-storage-context', () => {
+  it('await', async () => {
+    expect(await results).toEqual([
+      ['first', 'first'],
+      ['second', 'second'],
+    ]);
+  });
+  it('outside', () => {
+    expect(() => injectOutside()).toThrowError(
+      'inject() must be called from an injection context'
+    );
+  });
+});
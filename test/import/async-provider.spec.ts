@@ -0,0 +1,86 @@
+import { AsyncProvidersError } from 'static-injector';
+import {
+  connectionCount,
+  Connection,
+  createdInjector,
+  cycleInjector,
+  CONFIG,
+  createFailedInjector,
+  createInjectorWithFailures,
+  createReportInjector,
+  destroyedLoggers,
+  loggerCount,
+  Report,
+  REPORT,
+  reportCount,
+  SUMMARY,
+  injector,
+  LAZY,
+  MyClass,
+} from '../fixture/async-provider';
+describe('async-provider', () => {
+  it('get-before-resolved', () => {
+    expect(() => injector.get(MyClass)).toThrowError(/getAsync/);
+  });
+  it('get-async', async () => {
+    let [first, second] = await Promise.all([
+      injector.getAsync(MyClass),
+      injector.getAsync(MyClass),
+    ]);
+    expect(first).toBe(second);
+    expect(first.out()).toBe('db://local');
+    expect(injector.get(Connection)).toBe(injector.get(Connection));
+    // one connection for `injector` and one for `createdInjector`
+    expect(connectionCount).toBe(2);
+  });
+  it('create-async', async () => {
+    let created = await createdInjector;
+    expect(created.get(CONFIG).url).toBe('db://local');
+    expect(created.get(MyClass).out()).toBe('db://local');
+    await expect(created.getAsync(LAZY)).rejects.toThrow('lazy failed');
+  });
+  it('create-async-failed', async () => {
+    await expect(createFailedInjector()).rejects.toThrow('connect failed');
+  });
+  it('create-async-failures', async () => {
+    let error: AsyncProvidersError = await createInjectorWithFailures().catch(
+      (e) => e
+    );
+    expect(error).toBeInstanceOf(AsyncProvidersError);
+    expect(error.errors.map((e) => e.message)).toEqual([
+      'connect failed',
+      'lazy failed',
+    ]);
+  });
+  it('deps-resolved-first', async () => {
+    let reportInjector = createReportInjector();
+    let count = loggerCount;
+    expect(await reportInjector.getAsync(REPORT)).toBe('db://report report');
+    expect(reportCount).toBe(1);
+    expect(loggerCount).toBe(count + 1);
+  });
+  it('factory-deps-resolved-first', async () => {
+    let reportInjector = createReportInjector();
+    let count = loggerCount;
+    let report = await reportInjector.getAsync(Report);
+    expect(report.connection.name).toBe('report');
+    expect(reportCount).toBe(2);
+    expect(loggerCount).toBe(count + 1);
+  });
+  it('aborted-transients-destroyed', async () => {
+    let reportInjector = createReportInjector();
+    let count = loggerCount;
+    let destroyed = destroyedLoggers;
+    expect(await reportInjector.getAsync(SUMMARY)).toBe('report');
+    // The first call of the factory was aborted after creating a logger.
+    expect(loggerCount).toBe(count + 2);
+    expect(destroyedLoggers).toBe(destroyed + 1);
+    reportInjector.destroy();
+    expect(destroyedLoggers).toBe(destroyed + 2);
+  });
+  it('cycle', async () => {
+    await expect(cycleInjector.getAsync(CONFIG)).rejects.toThrow(
+      'Dependency path: InjectionToken connection -> InjectionToken config -> InjectionToken connection'
+    );
+  });
+});
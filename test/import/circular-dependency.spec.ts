@@ -0,0 +1,17 @@
+import { RuntimeError } from 'static-injector';
+import { aliasError, classError } from '../fixture/circular-dependency';
+describe('circular-dependency', () => {
+  it('class', () => {
+    expect(classError instanceof RuntimeError).toBe(true);
+    expect(classError.code).toBe('200');
+    expect(classError.message).toContain(
+      'Dependency path: ClassA -> ClassB -> ClassA'
+    );
+  });
+  it('alias', () => {
+    expect(aliasError instanceof RuntimeError).toBe(true);
+    expect(aliasError.message).toContain(
+      'Dependency path: InjectionToken tokenA -> InjectionToken tokenB -> InjectionToken tokenC -> InjectionToken tokenA'
+    );
+  });
+});
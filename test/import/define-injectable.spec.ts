@@ -0,0 +1,57 @@
+import { defineInjectable, InjectFlags, Optional } from 'static-injector';
+import {
+  Car,
+  createDefineInjector,
+  Engine,
+  SportsCar,
+} from '../fixture/define-injectable';
+describe('define-injectable', () => {
+  it('definition', () => {
+    expect((Car as any).ɵprov.token).toBe(Car);
+    expect((Car as any).ɵprov.providedIn).toBe('root');
+    expect(typeof (Car as any).ɵfac).toBe('function');
+  });
+  it('deps', () => {
+    let injector = createDefineInjector();
+    let car = injector.get(Car);
+    expect(car.engine).toBe(injector.get(Engine));
+    expect(car.wheel).toBe(null);
+    expect(car.name).toBe('car');
+  });
+  it('inherited', () => {
+    let injector = createDefineInjector();
+    let car = injector.get(SportsCar);
+    expect(car).toBeInstanceOf(SportsCar);
+    expect(car.engine).toBe(injector.get(Engine));
+  });
+  it('invalid-deps', () => {
+    class Service {
+      constructor(public engine: Engine) {}
+    }
+    expect(() =>
+      defineInjectable(Service, { deps: Engine as any })
+    ).toThrowError('The deps of Service must be an array');
+    expect(() => defineInjectable(Service, { deps: [undefined] })).toThrowError(
+      'Invalid dependency at index 0 of Service: the token is undefined.'
+    );
+    expect(() => defineInjectable(Service, { deps: [[]] })).toThrowError(
+      'Invalid dependency at index 0 of Service: the array must contain a token.'
+    );
+    expect(() =>
+      defineInjectable(Service, { deps: [[new Optional()]] })
+    ).toThrowError(
+      'Invalid dependency at index 0 of Service: the array only contains decorators, add a token.'
+    );
+    expect(() =>
+      defineInjectable(Service, { deps: [[InjectFlags.Optional, Engine]] })
+    ).toThrowError('InjectFlags are not supported in deps');
+    expect(() => defineInjectable(Service, {})).toThrowError(
+      'The constructor of Service has 1 parameters, but 0 deps were given to defineInjectable().'
+    );
+  });
+  it('already-defined', () => {
+    expect(() => defineInjectable(Car)).toThrowError(
+      'Car is already defined as an injectable.'
+    );
+  });
+});
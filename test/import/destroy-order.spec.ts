@@ -0,0 +1,78 @@
+import { InjectorDestroyError } from 'static-injector';
+import {
+  AnotherFailedService,
+  createInjector,
+  createLazyInjector,
+  destroyed,
+  FailedService,
+  RejectedService,
+  Session,
+  Store,
+  UserService,
+} from '../fixture/destroy-order';
+describe('destroy-order', () => {
+  beforeEach(() => {
+    destroyed.length = 0;
+  });
+  it('destroy-async', async () => {
+    let injector = createInjector();
+    injector.get(UserService);
+    await injector.destroyAsync();
+    expect(destroyed).toEqual(['UserService', 'Database', 'Logger']);
+  });
+  it('single-error', async () => {
+    let injector = createInjector();
+    injector.get(FailedService);
+    await expect(injector.destroyAsync()).rejects.toThrowError('FailedService');
+    expect(destroyed).toEqual(['UserService', 'Database', 'Logger']);
+  });
+  it('async-hook', async () => {
+    let injector = createInjector();
+    injector.get(UserService);
+    expect(() => injector.destroy()).toThrowError(
+      'The ngOnDestroy hook of Database returned a promise, which destroy() cannot wait for. Use destroyAsync() instead.'
+    );
+    expect(destroyed).toEqual(['UserService', 'Logger']);
+    // The hook still runs to completion
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(destroyed).toEqual(['UserService', 'Logger', 'Database']);
+  });
+  it('async-hook-rejected', async () => {
+    let unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+    try {
+      let injector = createLazyInjector();
+      injector.get(RejectedService);
+      expect(() => injector.destroy()).toThrowError(
+        'The ngOnDestroy hook of RejectedService returned a promise'
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+  it('lazy-dependency', () => {
+    let injector = createLazyInjector();
+    let session = injector.get(Session);
+    let store = injector.get(Store);
+    // Cache is created after its consumers, which are still destroyed first.
+    session.cache();
+    store.cache();
+    injector.destroy();
+    expect(destroyed).toEqual(['Store', 'Session', 'Cache']);
+  });
+  it('aggregate-error', async () => {
+    let injector = createInjector();
+    injector.get(AnotherFailedService);
+    let error: InjectorDestroyError = await injector
+      .destroyAsync()
+      .catch((e) => e);
+    expect(error instanceof InjectorDestroyError).toBe(true);
+    expect(error.errors.map((e) => e.message)).toEqual([
+      'AnotherFailedService',
+      'FailedService',
+    ]);
+    expect(destroyed).toEqual(['UserService', 'Database', 'Logger']);
+  });
+});
@@ -0,0 +1,6 @@
+import { destroyed } from '../fixture/destroy-ref';
+describe('destroy-ref', () => {
+  it('destroy-ref', () => {
+    expect(destroyed).toEqual(['MyClass', 'MyClass callback', 'connection']);
+  });
+});
@@ -0,0 +1,41 @@
+import { Host, InjectFlags, Injector } from 'static-injector';
+import { CONFIG, createInjectors, Widget } from '../fixture/host';
+describe('host', () => {
+  it('decorator', () => {
+    expect(createInjectors('plugin').widget.get(Widget).config).toBe('plugin');
+    expect(createInjectors().widget.get(Widget).config).toBe(null);
+  });
+  it('flag', () => {
+    let { widget } = createInjectors();
+    expect(() => widget.get(CONFIG, undefined, InjectFlags.Host)).toThrowError(
+      'No provider for InjectionToken CONFIG!'
+    );
+    expect(widget.get(CONFIG, undefined, { host: true, optional: true })).toBe(
+      null
+    );
+    expect(widget.get(CONFIG)).toBe('app');
+  });
+  it('without-boundary', () => {
+    let parent = Injector.create({
+      providers: [{ provide: CONFIG, useValue: 'app' }],
+    });
+    let child = Injector.create({ providers: [], parent });
+    expect(child.get(CONFIG, undefined, { host: true })).toBe('app');
+  });
+  it('deps', () => {
+    let { widget } = createInjectors();
+    let child = Injector.create({
+      providers: [
+        {
+          provide: 'config',
+          useFactory: (config: string) => config,
+          deps: [[CONFIG, new Host()]],
+        },
+      ],
+      parent: widget,
+    });
+    expect(() => child.get('config' as any)).toThrowError(
+      'No provider for InjectionToken CONFIG!'
+    );
+  });
+});
@@ -0,0 +1,32 @@
+import {
+  createInjectors,
+  Logger,
+  MISSING,
+  RESOLVED,
+} from '../fixture/inject-options';
+describe('inject-options', () => {
+  it('inject', () => {
+    let { parent, child } = createInjectors();
+    let resolved = child.get(RESOLVED);
+    expect(resolved.self).toBe(null);
+    expect(resolved.parent).toBe(parent.get(Logger));
+    expect(resolved.fallback).toBe('fallback');
+    expect(resolved.optional).toBe(null);
+  });
+  it('injector-get', () => {
+    let { parent, child } = createInjectors();
+    expect(child.get(Logger, undefined, { skipSelf: true })).toBe(
+      parent.get(Logger)
+    );
+    expect(child.get(Logger, undefined, { self: true, optional: true })).toBe(
+      null
+    );
+    expect(() => child.get(Logger, undefined, { self: true })).toThrowError(
+      'No provider for Logger!'
+    );
+    expect(child.get(MISSING, undefined, { default: 'fallback' })).toBe(
+      'fallback'
+    );
+    expect(child.get(MISSING, 'value', { default: 'fallback' })).toBe('value');
+  });
+});
@@ -0,0 +1,11 @@
+import { calls, createFailedInjector } from '../fixture/injector-initializer';
+describe('injector-initializer', () => {
+  it('order', () => {
+    expect(calls).toEqual(['parent', 'MyClass', 'factory']);
+  });
+  it('error-path', () => {
+    expect(() => createFailedInjector()).toThrowError(
+      'R3InjectorError(failed)[InjectionToken INJECTOR_INITIALIZER[1] -> InjectionToken token]'
+    );
+  });
+});
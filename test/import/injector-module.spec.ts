@@ -0,0 +1,36 @@
+import { createInjector, Injector } from 'static-injector';
+import {
+  API_URL,
+  AppModule,
+  createAppInjector,
+  createdModules,
+  Http,
+  HttpClient,
+  HttpModule,
+  Logger,
+  SharedModule,
+} from '../fixture/injector-module';
+describe('injector-module', () => {
+  it('imports', () => {
+    let injector = createAppInjector();
+    expect(injector.get(Logger)).toBeTruthy();
+    expect(injector.get(Http)).toBeTruthy();
+    expect(injector.get(HttpClient).http).toBe(injector.get(Http));
+    expect(injector.get(SharedModule)).toBeTruthy();
+  });
+  it('eager-module-instance', () => {
+    createdModules.length = 0;
+    let injector = createAppInjector();
+    expect(createdModules).toEqual(['AppModule']);
+    expect(injector.get(AppModule).logger).toBe(injector.get(Logger));
+  });
+  it('module-with-providers', () => {
+    expect(createAppInjector().get(API_URL)).toBe('https://example.com');
+    expect(createInjector(HttpModule).get(API_URL)).toBe('default');
+  });
+  it('provided-in-module', () => {
+    let injector = Injector.create({ providers: [] });
+    expect(() => injector.get(HttpClient)).toThrowError();
+    expect(createInjector(SharedModule).get(HttpClient)).toBeTruthy();
+  });
+});
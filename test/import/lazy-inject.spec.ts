@@ -0,0 +1,48 @@
+import { Injector, Lazy, R3Injector } from 'static-injector';
+import {
+  Car,
+  createLazyInjector,
+  Engine,
+  engineCount,
+  GARAGE,
+} from '../fixture/lazy-inject';
+describe('lazy-inject', () => {
+  it('decorator', () => {
+    let injector = createLazyInjector();
+    let count = engineCount;
+    let car = injector.get(Car);
+    expect(engineCount).toBe(count);
+    expect(car.engine().start()).toBe('started');
+    expect(engineCount).toBe(count + 1);
+    expect(car.engine()).toBe(injector.get(Engine));
+    expect(car.name()).toBe('car');
+  });
+  it('inject-options', () => {
+    let injector = createLazyInjector();
+    let count = engineCount;
+    let handle = injector.get(GARAGE);
+    expect(engineCount).toBe(count);
+    expect(handle()).toBe(injector.get(Engine));
+    expect(engineCount).toBe(count + 1);
+  });
+  it('deps', () => {
+    let injector = Injector.create({
+      providers: [
+        { provide: Engine },
+        {
+          provide: 'handle',
+          useFactory: (engine: () => Engine) => engine,
+          deps: [[Engine, new Lazy()]],
+        },
+      ],
+    });
+    let handle: () => Engine = injector.get('handle' as any);
+    expect(handle()).toBe(injector.get(Engine));
+  });
+  it('destroyed', () => {
+    let injector = createLazyInjector() as R3Injector;
+    let handle = injector.get(GARAGE);
+    injector.destroy();
+    expect(() => handle()).toThrowError('Injector has already been destroyed.');
+  });
+});
@@ -0,0 +1,23 @@
+import {
+  createRequest,
+  Handler,
+  RequestContext,
+  SESSION,
+  sessionInjector,
+} from '../fixture/named-scope';
+describe('named-scope', () => {
+  it('request', () => {
+    let first = createRequest();
+    let second = createRequest();
+    expect(first.get(Handler).context).toBe(first.get(RequestContext));
+    expect(first.get(RequestContext)).not.toBe(second.get(RequestContext));
+  });
+  it('session', () => {
+    expect(createRequest().get(SESSION)).toBe(createRequest().get(SESSION));
+  });
+  it('missing-scope', () => {
+    expect(() => sessionInjector.get(RequestContext)).toThrowError(
+      "RequestContext is provided in the 'request' scope, but no injector in the chain has that scope."
+    );
+  });
+});
@@ -0,0 +1,20 @@
+import {
+  injectOutside,
+  runInDestroyed,
+  values,
+} from '../fixture/run-in-injection-context';
+describe('run-in-injection-context', () => {
+  it('nested', () => {
+    expect(values).toEqual(['outer', 'inner', 'outer']);
+  });
+  it('restored', () => {
+    expect(() => injectOutside()).toThrowError(
+      'inject() must be called from an injection context'
+    );
+  });
+  it('destroyed', () => {
+    expect(() => runInDestroyed()).toThrowError(
+      'Injector has already been destroyed.'
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { Injector } from 'static-injector';
+import {
+  Client,
+  createTransientInjector,
+  destroyed,
+  Parser,
+  RequestBuilder,
+} from '../fixture/transient';
+describe('transient', () => {
+  it('injectable', () => {
+    let injector = createTransientInjector();
+    expect(injector.get(Parser)).not.toBe(injector.get(Parser));
+    let client = injector.get(Client);
+    expect(client.first).not.toBe(client.second);
+    expect(injector.get(Client)).toBe(client);
+  });
+  it('provider', () => {
+    let injector = createTransientInjector();
+    expect(injector.get(RequestBuilder)).not.toBe(injector.get(RequestBuilder));
+  });
+  it('factory-provider', () => {
+    let count = 0;
+    let injector = Injector.create({
+      providers: [
+        { provide: 'id', useFactory: () => ++count, lifetime: 'transient' },
+      ],
+    });
+    expect(injector.get('id')).toBe(1);
+    expect(injector.get('id')).toBe(2);
+  });
+  it('singleton-override', () => {
+    let injector = Injector.create({
+      providers: [{ provide: Parser, lifetime: 'singleton' }],
+    });
+    expect(injector.get(Parser)).toBe(injector.get(Parser));
+  });
+  it('destroy', () => {
+    destroyed.length = 0;
+    let injector = createTransientInjector();
+    let first = injector.get(Parser);
+    let second = injector.get(Parser);
+    injector.destroy();
+    expect(destroyed).toEqual([second.id, first.id]);
+  });
+  it('circular', () => {
+    let injector = Injector.create({
+      providers: [
+        {
+          provide: 'a',
+          useFactory: (b: any) => b,
+          deps: ['b'],
+          lifetime: 'transient',
+        },
+        {
+          provide: 'b',
+          useFactory: (a: any) => a,
+          deps: ['a'],
+          lifetime: 'transient',
+        },
+      ],
+    });
+    expect(() => injector.get('a')).toThrowError(
+      'Circular dependency in DI detected for a. Dependency path: a -> b -> a'
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { Injectable, Injector } from 'static-injector';
+import {
+  Car,
+  ConsoleLogger,
+  createRuntimeInjector,
+  Engine,
+  ExplicitDeps,
+  Logger,
+  SportsCar,
+  StandardService,
+  Unresolved,
+} from '../fixture/runtime-injectable';
+describe('runtime-injectable', () => {
+  it('definition', () => {
+    expect((Car as any).ɵprov.providedIn).toBe('root');
+    expect((Car as any).ɵprov.token).toBe(Car);
+    expect(typeof (Car as any).ɵfac).toBe('function');
+  });
+  it('parameters', () => {
+    let injector = createRuntimeInjector();
+    let car = injector.get(Car);
+    expect(car.engine).toBe(injector.get(Engine));
+    expect(car.name).toBe('car');
+    expect(car.wheel).toBe(null);
+  });
+  it('inherited', () => {
+    let injector = createRuntimeInjector();
+    let car = injector.get(SportsCar);
+    expect(car).toBeInstanceOf(SportsCar);
+    expect(car.name).toBe('car');
+  });
+  it('deps', () => {
+    let injector = Injector.create({ providers: [], scope: 'root' });
+    expect(injector.get(ExplicitDeps).engine).toBe(injector.get(Engine));
+  });
+  it('use-class', () => {
+    let injector = Injector.create({ providers: [], scope: 'root' });
+    let logger = injector.get(Logger);
+    expect(logger).toBeInstanceOf(ConsoleLogger);
+    expect(logger.log()).toBe('console');
+  });
+  it('unresolved', () => {
+    let injector = createRuntimeInjector();
+    expect(() => injector.get(Unresolved)).toThrowError(
+      "Can't resolve all parameters for Unresolved: (Engine, ?)"
+    );
+  });
+  it('standard-decorator', () => {
+    let injector = createRuntimeInjector();
+    let service = injector.get(StandardService);
+    expect(service.name).toBe('car');
+    expect(service.engine).toBe(injector.get(Engine));
+    expect(() =>
+      Injectable()(class {}, { kind: 'method', name: 'method' })
+    ).toThrowError(
+      '@Injectable() can only decorate a class, but was applied to a method.'
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import path from 'path';
+import ts from 'typescript';
+import {
+  analyzeProgram,
+  InjectableTransformerFactoryOptions,
+} from '../../src/transform';
+import {
+  ErrorCode,
+  ngErrorCode,
+} from '../../src/transform/compiler-cli/src/ngtsc/diagnostics';
+function createProgram(fileNames: string[]) {
+  return ts.createProgram({
+    rootNames: fileNames.map((fileName) =>
+      path.resolve(__dirname, '../fixture', fileName)
+    ),
+    options: { experimentalDecorators: true },
+  });
+}
+describe('analyze-program', () => {
+  it('metadata', () => {
+    let { injectables, diagnostics } = analyzeProgram(
+      createProgram(['parameters-decorator.ts', 'injectable.ts'])
+    );
+    expect(diagnostics.length).toBe(0);
+    let myClass = injectables.find(
+      (item) =>
+        item.name === 'MyClass' &&
+        item.location.fileName.endsWith('parameters-decorator.ts')
+    )!;
+    expect(myClass.providedIn).toBe(null);
+    expect(myClass.location.line).toBe(10);
+    expect(myClass.deps).toEqual([
+      expect.objectContaining({ token: 'token1', self: false }),
+      expect.objectContaining({ token: `'noValue'`, optional: true }),
+      expect.objectContaining({ token: 'token1', skipSelf: true }),
+      expect.objectContaining({ token: 'token1', self: true }),
+    ]);
+    expect(injectables.some((item) => item.providedIn === 'root')).toBe(true);
+  });
+  it('diagnostics', () => {
+    let { injectables, diagnostics } = analyzeProgram(
+      createProgram(['error/strict-constructor-deps-partial.ts']),
+      { strictCtorDeps: true }
+    );
+    expect(injectables.map((item) => item.name)).toEqual(['ValidClass']);
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].code).toBe(
+      ngErrorCode(ErrorCode.PARAM_MISSING_TOKEN)
+    );
+  });
+  it('missing-provider', () => {
+    let program = createProgram(['error/missing-provider.ts']);
+    let { diagnostics } = analyzeProgram(program, { checkProviders: true });
+    let sf = program
+      .getSourceFiles()
+      .find((sf) => sf.fileName.endsWith('missing-provider.ts'))!;
+    expect(
+      diagnostics.map((item) => [
+        item.code,
+        ts.flattenDiagnosticMessageText(item.messageText, '\n'),
+        sf.text.substr(item.start!, item.length),
+      ])
+    ).toEqual([
+      [
+        ngErrorCode(ErrorCode.MISSING_PROVIDER),
+        'No provider for Logger in Injector.create(), which is required by Api -> Cache -> Logger.',
+        '{ provide: Api, useClass: Api }',
+      ],
+      [
+        ngErrorCode(ErrorCode.MISSING_PROVIDER),
+        `No provider for API_URL in Injector.create(), which is required by 'url' -> API_URL.`,
+        expect.stringContaining(`provide: 'url'`),
+      ],
+    ]);
+    expect(analyzeProgram(program).diagnostics).toEqual([]);
+  });
+  it('dependency-cycle', () => {
+    let program = createProgram(['error/cycle-a.ts']);
+    let getCycles = (
+      checkCycles: InjectableTransformerFactoryOptions['checkCycles']
+    ) =>
+      analyzeProgram(program, { checkCycles }).diagnostics.map((item) => {
+        expect(item.code).toBe(
+          ngErrorCode(ErrorCode.INJECTABLE_DEPENDENCY_CYCLE)
+        );
+        // Only the base names of the files are compared.
+        return ts
+          .flattenDiagnosticMessageText(item.messageText, '\n')
+          .replace(/\([^()]*[\\/]/g, '(');
+      });
+    let serviceCycle =
+      'Circular dependency between injectables: ServiceB (cycle-b.ts) -> ServiceC (cycle-b.ts) -> ServiceA (cycle-a.ts) -> ServiceB (cycle-b.ts).';
+    expect(getCycles(true)).toEqual([
+      serviceCycle,
+      'Circular dependency between injectables: OptionalA (cycle-a.ts) -> OptionalB (cycle-a.ts) -> OptionalA (cycle-a.ts).',
+    ]);
+    expect(
+      getCycles({ optionalBreaksCycle: true, lazyBreaksCycle: false })
+    ).toEqual([
+      serviceCycle,
+      'Circular dependency between injectables: LazyA (cycle-a.ts) -> LazyB (cycle-a.ts) -> LazyA (cycle-a.ts).',
+    ]);
+    expect(getCycles(false)).toEqual([]);
+  });
+});
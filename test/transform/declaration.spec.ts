@@ -0,0 +1,199 @@
+import path from 'path';
+import ts from 'typescript';
+import { InjectableTransformerFactory } from '../../src/transform';
+import {
+  ErrorCode,
+  ngErrorCode,
+} from '../../src/transform/compiler-cli/src/ngtsc/diagnostics';
+import { createTestTransformer } from '../util/create-test-transform';
+const options: ts.CompilerOptions = {
+  declaration: true,
+  outDir: path.resolve(__dirname, '../../dist-declaration'),
+  baseUrl: path.resolve(__dirname, '../..'),
+  paths: { 'static-injector': ['./src/import'] },
+};
+function emitDeclarations(fileName: string) {
+  let files = new Map<string, string>();
+  let declarationFileName = '';
+  createTestTransformer(
+    [path.resolve(__dirname, '../fixture', fileName)],
+    options,
+    {
+      writeFile: (outputFileName, data) => {
+        files.set(outputFileName, data);
+        if (outputFileName.endsWith(fileName.replace(/\.ts$/, '.d.ts'))) {
+          declarationFileName = outputFileName;
+        }
+      },
+      emitOnlyDtsFiles: true,
+    }
+  );
+  return { files, declarationFileName };
+}
+/** Creates a program from `rootNames`, which may be in the emitted `files`. */
+function createProgram(
+  rootNames: string[],
+  files: Map<string, string>,
+  extraOptions: ts.CompilerOptions
+) {
+  let host = ts.createCompilerHost(options);
+  let { fileExists, readFile, directoryExists } = host;
+  host.fileExists = (fileName) =>
+    files.has(fileName) || fileExists.call(host, fileName);
+  host.directoryExists = (directoryName) =>
+    [...files.keys()].some((fileName) =>
+      fileName.startsWith(directoryName + '/')
+    ) || directoryExists!.call(host, directoryName);
+  host.readFile = (fileName) =>
+    files.get(fileName) ?? readFile.call(host, fileName);
+  return ts.createProgram({
+    rootNames,
+    options: { ...options, declaration: false, ...extraOptions },
+    host,
+  });
+}
+describe('declaration', () => {
+  it('hello-world', () => {
+    let { files, declarationFileName } = emitDeclarations('hello.ts');
+    let data = files.get(declarationFileName)!;
+    expect(data).toContain(`import * as i0 from "static-injector";`);
+    expect(data).toContain(
+      `static ɵfac: i0.ɵɵFactoryDeclaration<MyClass, never>;`
+    );
+    expect(data).toContain(
+      `static ɵprov: i0.ɵɵInjectableDeclaration<MyClass, null>;`
+    );
+  });
+  it('provided-in', () => {
+    let { files, declarationFileName } = emitDeclarations('named-scope.ts');
+    expect(files.get(declarationFileName)).toContain(
+      `static ɵprov: i0.ɵɵInjectableDeclaration<RequestContext, "request">;`
+    );
+  });
+  it('parameters-decorator', () => {
+    let { files, declarationFileName } = emitDeclarations(
+      'parameters-decorator.ts'
+    );
+    let data = files.get(declarationFileName)!;
+    expect(data).toContain(
+      `static ɵfac: i0.ɵɵFactoryDeclaration<MyClass, [{ token: unknown; }, { token: unknown; optional: true; }, { token: unknown; skipSelf: true; }, { token: unknown; self: true; }]>;`
+    );
+  });
+  it('type-check', () => {
+    // A consumer of the emitted declarations sees the typed static fields.
+    let { files, declarationFileName } = emitDeclarations('hello.ts');
+    let consumer = path.join(path.dirname(declarationFileName), 'consumer.ts');
+    files.set(
+      consumer,
+      [
+        `import { ɵɵFactoryDeclaration, ɵɵInjectableDeclaration } from 'static-injector';`,
+        `import { MyClass } from './hello';`,
+        `const fac: ɵɵFactoryDeclaration<MyClass, never> = MyClass.ɵfac;`,
+        `const prov: ɵɵInjectableDeclaration<MyClass> = MyClass.ɵprov;`,
+        `const instance: MyClass = MyClass.ɵfac();`,
+      ].join('\n')
+    );
+    let program = createProgram([consumer], files, { noEmit: true });
+    let diagnostics = program
+      .getSemanticDiagnostics(program.getSourceFile(consumer))
+      .map((item) => ts.flattenDiagnosticMessageText(item.messageText, '\n'));
+    expect(diagnostics).toEqual([]);
+  });
+  it('dependency-package', () => {
+    // The consumer is compiled against the declarations of a separately built package.
+    let { files, declarationFileName } = emitDeclarations('named-scope.ts');
+    let consumer = path.join(path.dirname(declarationFileName), 'consumer.ts');
+    files.set(
+      path.join(path.dirname(declarationFileName), 'transport.d.ts'),
+      [
+        `export declare class Transport {`,
+        `  constructor(url: string);`,
+        `}`,
+        `export declare abstract class Store {`,
+        `  constructor(url: string);`,
+        `}`,
+      ].join('\n')
+    );
+    files.set(
+      consumer,
+      [
+        `import { Injectable, InjectorModule } from 'static-injector';`,
+        `import { Handler, RequestContext } from './named-scope';`,
+        `import { Store, Transport } from './transport';`,
+        `export class Plain {`,
+        `  constructor(public handler: Handler) {}`,
+        `}`,
+        `@Injectable({ providedIn: 'root' })`,
+        `export class RootService {`,
+        `  constructor(public context: RequestContext) {}`,
+        `}`,
+        `@Injectable({ providedIn: 'request' })`,
+        `export class RequestService {`,
+        `  constructor(`,
+        `    public context: RequestContext,`,
+        `    public handler: Handler,`,
+        `    public transport: Transport,`,
+        `    public store: Store`,
+        `  ) {}`,
+        `}`,
+        `@InjectorModule({ providers: [Handler, { provide: 'plain', useClass: Plain }] })`,
+        `export class ConsumerModule {}`,
+      ].join('\n')
+    );
+    let program = createProgram([consumer], files, {
+      experimentalDecorators: true,
+    });
+    let factory = new InjectableTransformerFactory(program, {
+      checkDependencies: true,
+    });
+    let sf = program.getSourceFile(consumer)!;
+
+    let dts = program.getSourceFile(declarationFileName)!;
+    let [requestContext, handler, sessionHandler] = [
+      'RequestContext',
+      'Handler',
+      'SessionHandler',
+    ].map(
+      (name) =>
+        dts.statements.find(
+          (node): node is ts.ClassDeclaration & { name: ts.Identifier } =>
+            ts.isClassDeclaration(node) && node.name!.text === name
+        )!
+    );
+    expect(factory.metaReader.getInjectableMetadata(requestContext)).toEqual(
+      expect.objectContaining({ providedIn: 'request', deps: [] })
+    );
+    let handlerMeta = factory.metaReader.getInjectableMetadata(handler)!;
+    expect(handlerMeta.providedIn).toBe(null);
+    expect(handlerMeta.deps).toEqual([
+      expect.objectContaining({ token: requestContext, optional: false }),
+    ]);
+    // The token of an `@Inject()` dependency is read from the factory declaration.
+    expect(files.get(declarationFileName)).toContain(
+      `static ɵfac: i0.ɵɵFactoryDeclaration<SessionHandler, [{ token: typeof SESSION; }]>;`
+    );
+    let session = dts.statements
+      .filter(ts.isVariableStatement)
+      .flatMap((node) => node.declarationList.declarations)
+      .find((node) => (node.name as ts.Identifier).text === 'SESSION');
+    expect(
+      factory.metaReader.getInjectableMetadata(sessionHandler)!.deps
+    ).toEqual([expect.objectContaining({ token: session })]);
+
+    let diagnostics: ts.Diagnostic[] = [];
+    factory.analyzeSourceFile(sf, diagnostics);
+    expect(
+      diagnostics.map((item) => [
+        item.code,
+        sf.text.substr(item.start!, item.length),
+      ])
+    ).toEqual([
+      [ngErrorCode(ErrorCode.INJECTABLE_PROVIDED_IN_MISMATCH), 'context'],
+      [ngErrorCode(ErrorCode.INJECTABLE_UNDECORATED_DEPENDENCY), 'transport'],
+      [ngErrorCode(ErrorCode.UNDECORATED_PROVIDER), 'Plain'],
+    ]);
+    expect(
+      ts.flattenDiagnosticMessageText(diagnostics[0].messageText, '\n')
+    ).toContain(`dependency RequestContext is provided in 'request'`);
+  });
+});
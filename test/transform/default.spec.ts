@@ -1,5 +1,19 @@
+import fs from 'fs';
+import os from 'os';
 import path from 'path';
+import ts from 'typescript';
 import { createTestTransformer } from '../util/create-test-transform';
+// Standard decorators can only be compiled by TypeScript 5 and later.
+const itStandardDecorators =
+  parseInt(ts.versionMajorMinor, 10) >= 5 ? it : it.skip;
+// `@company/di` re-exports `static-injector`, it is listed in `coreModules` by the tests.
+const coreModuleOptions: ts.CompilerOptions = {
+  baseUrl: path.resolve(__dirname, '../..'),
+  paths: {
+    'static-injector': ['./src/import'],
+    '@company/di': ['./test/fixture/core-module/company-di'],
+  },
+};
 describe('default', () => {
   it('hello-world', () => {
     createTestTransformer(
@@ -22,6 +36,10 @@ describe('default', () => {
         writeFile: (fileName, data) => {
           expect(data).toContain(`MyClass.ɵfac`);
           expect(data).toContain(`MyClass.ɵprov`);
+          expect(data).not.toContain(`__param`);
+          // The dependency which skips the injector is not attached to the factory.
+          expect(data).toContain(`ɵɵfactoryDeps(`);
+          expect(data).toContain(`return [token1, 'noValue', token1];`);
         },
       }
     );
@@ -72,6 +90,8 @@ describe('default', () => {
           expect(data).not.toContain(`OnlyOtherClass.ɵprov`);
           expect(data).toContain(`BothClass.ɵfac`);
           expect(data).toContain(`BothClass.ɵprov`);
+          expect(data).toContain(`OtherDecorator()`);
+          expect(data).not.toContain(`Injectable()`);
         },
       }
     );
@@ -90,4 +110,125 @@ describe('default', () => {
       }
     );
   });
+  it('injector-module', () => {
+    createTestTransformer(
+      [path.resolve(__dirname, '../fixture/injector-module.ts')],
+      undefined,
+      {
+        writeFile: (fileName, data) => {
+          expect(data).toContain(`AppModule.ɵfac`);
+          expect(data).toContain(`AppModule.ɵinj`);
+          expect(data).toContain(`ɵɵdefineInjector`);
+          expect(data).not.toContain(`AppModule.ɵprov`);
+          expect(data).not.toContain(`InjectorModule(`);
+        },
+      }
+    );
+  });
+  it('lazy-inject', () => {
+    createTestTransformer(
+      [path.resolve(__dirname, '../fixture/lazy-inject.ts')],
+      undefined,
+      {
+        writeFile: (fileName, data) => {
+          expect(data).toContain(`i0.ɵɵinject(Engine, 16)`);
+          expect(data).toContain(`NAME, 16)`);
+        },
+      }
+    );
+  });
+  it('host', () => {
+    createTestTransformer(
+      [path.resolve(__dirname, '../fixture/host.ts')],
+      undefined,
+      {
+        writeFile: (fileName, data) => {
+          expect(data).toContain(`CONFIG, 9)`);
+          expect(data).not.toContain(`Host()`);
+        },
+      }
+    );
+  });
+  itStandardDecorators('standard-decorator', () => {
+    let outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'standard-decorator-'));
+    try {
+      createTestTransformer(
+        [path.resolve(__dirname, '../fixture/standard-decorator.ts')],
+        { experimentalDecorators: false, outDir },
+        {
+          writeFile: (fileName, data) => {
+            expect(data).toContain(`Logger.ɵfac`);
+            expect(data).toContain(`Logger.ɵprov`);
+            expect(data).toContain(`MyClass.ɵfac`);
+            expect(data).toContain(`providedIn: 'root'`);
+            expect(data).toContain(`OtherDecorator()`);
+            expect(data).not.toMatch(/\bInjectable\)?\(/);
+            fs.writeFileSync(fileName, data);
+          },
+        }
+      );
+      let { instance, otherDecoratorKind } = require(path.join(
+        outDir,
+        'standard-decorator.js'
+      ));
+      // The other decorator is still applied, as a standard decorator.
+      expect(otherDecoratorKind).toBe('class');
+      expect(instance.hello()).toBe('log: hello');
+      expect(instance.name).toBe(null);
+    } finally {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+  it('core-module-barrel', () => {
+    createTestTransformer(
+      [path.resolve(__dirname, '../fixture/core-module/barrel.ts')],
+      {
+        baseUrl: path.resolve(__dirname, '../..'),
+        paths: { 'static-injector': ['./src/import'] },
+      },
+      {
+        writeFile: (fileName, data) => {
+          if (!fileName.endsWith('barrel.js')) {
+            return;
+          }
+          expect(data).toContain(`BarrelService.ɵfac`);
+          expect(data).toContain(`i0.ɵɵinject(exports.NAME)`);
+          expect(data).not.toContain(`CompanyInjectable)(`);
+        },
+      }
+    );
+  });
+  it('core-module-specifier', () => {
+    createTestTransformer(
+      [path.resolve(__dirname, '../fixture/core-module/specifier.ts')],
+      coreModuleOptions,
+      {
+        writeFile: (fileName, data) => {
+          if (!fileName.endsWith('specifier.js')) {
+            return;
+          }
+          expect(data).toContain(`SpecifierService.ɵfac`);
+          expect(data).toContain(`i0.ɵɵinject(Dependency, 8)`);
+        },
+      },
+      { coreModules: ['@company/di'] }
+    );
+  });
+  it('core-module-renamed', () => {
+    createTestTransformer(
+      [path.resolve(__dirname, '../fixture/core-module/renamed.ts')],
+      coreModuleOptions,
+      {
+        writeFile: (fileName, data) => {
+          if (!fileName.endsWith('renamed.js')) {
+            return;
+          }
+          expect(data).toContain(`RenamedService.ɵfac`);
+          expect(data).toContain(`i0.ɵɵinject(exports.NAME)`);
+          expect(data).not.toContain(`CompanyInjectable)(`);
+        },
+      },
+      { coreModules: ['@company/di'] }
+    );
+  });
 });
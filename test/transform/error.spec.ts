@@ -1,68 +1,67 @@
 import * as path from 'path';
-import { FatalDiagnosticError } from '../../src/transform/compiler-cli/src/ngtsc/diagnostics/error';
+import ts from 'typescript';
+import {
+  ErrorCode,
+  ngErrorCode,
+} from '../../src/transform/compiler-cli/src/ngtsc/diagnostics';
 import { createTestTransformer } from '../util/create-test-transform';
+function transformWithDiagnostics(fileName: string) {
+  let diagnostics: ts.Diagnostic[] = [];
+  let output = '';
+  createTestTransformer(
+    [path.resolve(__dirname, '../fixture/error', fileName)],
+    undefined,
+    {
+      writeFile: (fileName, data) => {
+        output += data;
+      },
+    },
+    {
+      strictCtorDeps: true,
+      onDiagnostics: (list) => diagnostics.push(...list),
+    }
+  );
+  return { diagnostics, output };
+}
 describe('error', () => {
   it('strict-constructor-deps', () => {
-    try {
-      createTestTransformer(
-        [
-          path.resolve(
-            __dirname,
-            '../fixture/error/strict-constructor-deps.ts'
-          ),
-        ],
-        undefined,
-        {
-          writeFile: (fileName, data) => {
-            throw 'can not emit';
-          },
-        },
-        { strictCtorDeps: true }
-      );
-    } catch (error) {
-      expect(error instanceof FatalDiagnosticError).toBe(true);
-    }
+    let { diagnostics, output } = transformWithDiagnostics(
+      'strict-constructor-deps.ts'
+    );
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].code).toBe(
+      ngErrorCode(ErrorCode.PARAM_MISSING_TOKEN)
+    );
+    expect(diagnostics[0].category).toBe(ts.DiagnosticCategory.Error);
+    expect(output).not.toContain('MyClass.ɵfac');
   });
   it('strict-constructor-union-type-dep', () => {
-    try {
-      createTestTransformer(
-        [
-          path.resolve(
-            __dirname,
-            '../fixture/error/strict-constructor-union-type-dep.ts'
-          ),
-        ],
-        undefined,
-        {
-          writeFile: (fileName, data) => {
-            throw 'can not emit';
-          },
-        },
-        { strictCtorDeps: true }
-      );
-    } catch (error) {
-      expect(error instanceof FatalDiagnosticError).toBe(true);
-    }
+    let { diagnostics } = transformWithDiagnostics(
+      'strict-constructor-union-type-dep.ts'
+    );
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].code).toBe(
+      ngErrorCode(ErrorCode.PARAM_MISSING_TOKEN)
+    );
   });
   it('strict-constructor-interface-type-dep', () => {
-    try {
-      createTestTransformer(
-        [
-          path.resolve(
-            __dirname,
-            '../fixture/error/strict-constructor-interface-type-dep.ts'
-          ),
-        ],
-        undefined,
-        {
-          writeFile: (fileName, data) => {
-            throw 'can not emit';
-          },
-        },
-        { strictCtorDeps: true }
-      );
-    } catch (error) {
-      expect(error instanceof FatalDiagnosticError).toBe(true);
-    }
+    let { diagnostics } = transformWithDiagnostics(
+      'strict-constructor-interface-type-dep.ts'
+    );
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].code).toBe(
+      ngErrorCode(ErrorCode.PARAM_MISSING_TOKEN)
+    );
+  });
+  it('unaffected-classes', () => {
+    let { diagnostics, output } = transformWithDiagnostics(
+      'strict-constructor-deps-partial.ts'
+    );
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].file!.fileName).toContain(
+      'strict-constructor-deps-partial.ts'
+    );
+    expect(output).toContain('ValidClass.ɵfac');
+    expect(output).not.toContain('InvalidClass.ɵfac');
   });
 });
@@ -0,0 +1,88 @@
+import path from 'path';
+import ts from 'typescript';
+import { linkSource } from '../../src/transform';
+import { createTestTransformer } from '../util/create-test-transform';
+function transformPartial(fileName: string) {
+  let output = '';
+  createTestTransformer(
+    [path.resolve(__dirname, '../fixture', fileName)],
+    { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2017 },
+    {
+      writeFile: (fileName, data) => {
+        output += data;
+      },
+    },
+    { compilationMode: 'partial' }
+  );
+  return output;
+}
+/** Runs an emitted CommonJS module with `static-injector` resolved to the sources. */
+function run(code: string) {
+  let module = { exports: {} as any };
+  new Function('require', 'module', 'exports', code)(
+    (id: string) =>
+      id === 'static-injector' ? require('../../src/import') : require(id),
+    module,
+    module.exports
+  );
+  return module.exports;
+}
+describe('partial', () => {
+  it('emits-declarations', () => {
+    let output = transformPartial('provider.ts');
+    expect(output).toContain('MyClass.ɵfac = i0.ɵɵngDeclareFactory(');
+    expect(output).toContain('MyClass.ɵprov = i0.ɵɵngDeclareInjectable(');
+    expect(output).toContain('ngImport: i0');
+    expect(output).not.toContain('ɵɵdefineInjectable');
+    expect(output).not.toContain('ɵɵinject(');
+  });
+  it('link-source', () => {
+    let output = linkSource(transformPartial('provider.ts'));
+    expect(output).not.toContain('ɵɵngDeclare');
+    expect(output).toMatch(/MyClass\.ɵprov = .*i0\.ɵɵdefineInjectable\(/);
+    expect(output).toContain('i0.ɵɵinject(UseClassClass)');
+  });
+  it('link-source-unchanged', () => {
+    let source = 'export const value = 1;';
+    expect(linkSource(source)).toBe(source);
+  });
+  it('linked-output-runs', () => {
+    let out = run(linkSource(transformPartial('provider.ts'))).instance.out();
+    expect(out.useClassClass.name).toBe('UseClassClass');
+    expect(out.useFactoryClass.noValue).toBe(null);
+    expect(out.useFactoryClass.injectValue).toBe('inputValue');
+    expect(out.classWithDeps.name).toBe('inputValue');
+  });
+  it('inherit', () => {
+    let output = transformPartial('inherit.ts');
+    expect(output).toContain('deps: null');
+    let linked = linkSource(output);
+    expect(linked).toContain('ɵɵgetInheritedFactory');
+    expect(run(linked).instance.hello()).toBe('helloparent');
+  });
+  it('injector-module', () => {
+    let output = transformPartial('injector-module.ts');
+    expect(output).toContain('AppModule.ɵfac = i0.ɵɵngDeclareFactory(');
+    expect(output).toContain('AppModule.ɵinj = i0.ɵɵngDeclareInjector(');
+    expect(output).not.toContain('ɵɵdefineInjector');
+    let linked = linkSource(output);
+    expect(linked).not.toContain('ɵɵngDeclare');
+    expect(linked).toMatch(/AppModule\.ɵinj = .*i0\.ɵɵdefineInjector\(/);
+    for (let code of [linked, output]) {
+      let fixture = run(code);
+      let injector = fixture.createAppInjector();
+      expect(injector.get(fixture.HttpClient).http).toBe(
+        injector.get(fixture.Http)
+      );
+      expect(injector.get(fixture.API_URL)).toBe('https://example.com');
+      expect(injector.get(fixture.AppModule).logger).toBe(
+        injector.get(fixture.Logger)
+      );
+    }
+  });
+  it('unlinked-output-runs', () => {
+    // Without the linker the declarations are evaluated by the runtime fallback.
+    let output = transformPartial('inherit.ts');
+    expect(run(output).instance.hello()).toBe('helloparent');
+  });
+});
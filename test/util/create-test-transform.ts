@@ -1,6 +1,6 @@
 import ts from 'typescript';
 import {
-  createTransformer,
+  InjectableTransformerFactory,
   InjectableTransformerFactoryOptions,
 } from '../../src/transform';
 
@@ -13,15 +13,19 @@ export function createTestTransformer(
   } = {},
   transformerOptions: InjectableTransformerFactoryOptions = {}
 ) {
-  let program = ts.createProgram({ rootNames: rootNames, options });
-  let transformer = createTransformer(program, transformerOptions);
+  let program = ts.createProgram({
+    rootNames: rootNames,
+    options: { experimentalDecorators: true, ...options },
+  });
+  let factory = new InjectableTransformerFactory(program, transformerOptions);
   program.emit(
     undefined,
     emitOptions.writeFile,
     undefined,
     emitOptions.emitOnlyDtsFiles,
     {
-      before: [transformer],
+      before: [factory.getTransform()],
+      afterDeclarations: [factory.getDeclarationTransform()],
     }
   );
 }
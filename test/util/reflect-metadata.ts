@@ -0,0 +1,20 @@
+/**
+ * A minimal `Reflect.metadata`/`Reflect.getOwnMetadata` polyfill, as provided by
+ * `reflect-metadata`, which is what the runtime `@Injectable()` reads `design:paramtypes` from.
+ */
+const metadataMap = new WeakMap<object, Map<string, any>>();
+
+function defineMetadata(key: string, value: any, target: object) {
+  let map = metadataMap.get(target);
+  if (!map) {
+    map = new Map();
+    metadataMap.set(target, map);
+  }
+  map.set(key, value);
+}
+
+let reflect = Reflect as any;
+reflect.metadata = (key: string, value: any) => (target: object) =>
+  defineMetadata(key, value, target);
+reflect.getOwnMetadata = (key: string, target: object) =>
+  metadataMap.get(target)?.get(key);